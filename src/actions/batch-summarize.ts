@@ -0,0 +1,295 @@
+import { App, Editor, Notice } from "obsidian";
+import { ContentExtractor } from "../services/content-extractor";
+import { LLMService } from "../services/llm-service";
+import { ProgressIndicator } from "../services/progress-indicator";
+import { SummaryCache } from "../services/summary-cache";
+import { SummarizeAction } from "./summarize";
+import { SummarizeSettings } from "../types";
+
+interface BatchLink {
+  url: string;
+  /** Line of the link when the batch started */
+  line: number;
+}
+
+interface BatchInsertion {
+  /** Original line the summary was inserted under */
+  afterLine: number;
+  lineCount: number;
+}
+
+interface BatchFailure {
+  url: string;
+  message: string;
+}
+
+const MAX_REPORTED_FAILURES = 5;
+
+/**
+ * Summarizes every link in a note (or selection) and inserts each summary
+ * as an indented child under its link line
+ */
+export class BatchSummarizeAction {
+  private app: App;
+  private settings: SummarizeSettings;
+  private contentExtractor: ContentExtractor;
+  private llmService: LLMService;
+  private summaryCache: SummaryCache;
+  private summarizeAction: SummarizeAction;
+  private progress: ProgressIndicator;
+
+  constructor(
+    app: App,
+    settings: SummarizeSettings,
+    contentExtractor: ContentExtractor,
+    llmService: LLMService,
+    summaryCache: SummaryCache,
+    summarizeAction: SummarizeAction,
+    progress: ProgressIndicator
+  ) {
+    this.app = app;
+    this.settings = settings;
+    this.contentExtractor = contentExtractor;
+    this.llmService = llmService;
+    this.summaryCache = summaryCache;
+    this.summarizeAction = summarizeAction;
+    this.progress = progress;
+  }
+
+  updateSettings(settings: SummarizeSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Summarize all links in the selection, or in the whole note if nothing is selected
+   */
+  async summarizeLinksCommand(editor: Editor): Promise<void> {
+    if (!this.llmService.isConfigured()) {
+      new Notice("Please configure your OpenRouter API key or another provider in settings.");
+      return;
+    }
+
+    const links = this.findLinks(editor);
+    if (links.length === 0) {
+      new Notice(editor.somethingSelected() ? "No links in selection." : "No links in note.");
+      return;
+    }
+
+    // Cancelled from the status bar
+    const task = this.progress.start();
+    const abortController = task.abortController;
+
+    const insertions: BatchInsertion[] = [];
+    const failures: BatchFailure[] = [];
+    let completed = 0;
+
+    const updateProgress = () => {
+      const failed = failures.length > 0 ? ` (${failures.length} failed)` : "";
+      task.setDetail(`Links ${completed}/${links.length} done${failed}`);
+    };
+    updateProgress();
+
+    try {
+      await this.runWithConcurrency(links, abortController.signal, async (link) => {
+        try {
+          const summary = await this.summarizeLink(link.url, abortController.signal);
+          if (abortController.signal.aborted) return;
+          this.insertUnderLink(editor, link, summary, insertions);
+        } catch (error) {
+          if (abortController.signal.aborted) return;
+          const message = error instanceof Error ? error.message : "Unknown error";
+          console.warn(`[Summarize] Failed to summarize ${link.url}:`, error);
+          failures.push({ url: link.url, message });
+        }
+        completed += 1;
+        updateProgress();
+      });
+    } finally {
+      task.finish();
+    }
+
+    const succeeded = completed - failures.length;
+    if (abortController.signal.aborted) {
+      new Notice(`Batch cancelled: ${succeeded} of ${links.length} links summarized`);
+    } else {
+      new Notice(`Summarized ${succeeded} of ${links.length} links`);
+    }
+
+    if (failures.length > 0) {
+      this.reportFailures(failures);
+    }
+  }
+
+  /**
+   * Find unique links in the selected lines (or the whole note), skipping fenced code blocks
+   */
+  private findLinks(editor: Editor): BatchLink[] {
+    const hasSelection = editor.somethingSelected();
+    const fromLine = hasSelection ? editor.getCursor("from").line : 0;
+    const toLine = hasSelection ? editor.getCursor("to").line : editor.lastLine();
+
+    const links: BatchLink[] = [];
+    const seen = new Set<string>();
+    let inCodeBlock = false;
+
+    for (let line = 0; line <= toLine; line++) {
+      const text = editor.getLine(line);
+      if (/^\s*(```|~~~)/.test(text)) {
+        inCodeBlock = !inCodeBlock;
+        continue;
+      }
+      if (inCodeBlock || line < fromLine) continue;
+
+      for (const url of this.summarizeAction.extractUrls(text)) {
+        if (seen.has(url)) continue;
+        seen.add(url);
+        links.push({ url, line });
+      }
+    }
+
+    return links;
+  }
+
+  /**
+   * Summarize one URL, using the summary cache when possible
+   */
+  private async summarizeLink(url: string, abortSignal: AbortSignal): Promise<string> {
+    const length = this.settings.defaultLength;
+    const cacheKey = this.summaryCache.buildKey(
+      { url },
+      { length, citations: false, context: this.summarizeAction.getPromptContext({}) }
+    );
+    const cached = await this.summaryCache.get(cacheKey);
+    if (cached) return cached.content;
+
+    const extracted = await this.contentExtractor.extractFromUrl(url);
+    if (abortSignal.aborted) return "";
+
+    // Footnotes do not render inside the nested list items summaries are inserted as
+    const { content, instructions, postProcess } = this.summarizeAction.getSourceFormatting(extracted, false);
+    const response = await this.llmService.summarize(content, {
+      length,
+      instructions,
+      abortSignal,
+      sourceType: extracted.sourceType,
+      context: this.summarizeAction.getPromptContext({
+        title: extracted.title,
+        url,
+        sourceType: extracted.sourceType,
+      }),
+    });
+
+    const summary = postProcess ? postProcess(response.content) : response.content;
+    await this.summaryCache.set(cacheKey, {
+      content: summary,
+      model: response.model,
+      title: extracted.title,
+      url,
+    });
+    await this.summarizeAction.recordHistory(
+      { title: extracted.title, url },
+      { content: summary, model: response.model },
+      { length }
+    );
+    return summary;
+  }
+
+  /**
+   * Insert a summary as an indented child under its link line.
+   * Earlier insertions shift lines down, so the link's current line is derived
+   * from them; if the note was edited meanwhile, the line is found by its URL.
+   */
+  private insertUnderLink(
+    editor: Editor,
+    link: BatchLink,
+    summary: string,
+    insertions: BatchInsertion[]
+  ): void {
+    const shift = insertions
+      .filter((insertion) => insertion.afterLine < link.line)
+      .reduce((sum, insertion) => sum + insertion.lineCount, 0);
+    let linkLine = link.line + shift;
+
+    if (linkLine > editor.lastLine() || !editor.getLine(linkLine).includes(link.url)) {
+      const found = this.findLineContaining(editor, link.url);
+      if (found === null) {
+        throw new Error("Link is no longer in the note");
+      }
+      linkLine = found;
+    }
+
+    // Keep summaries for several links on one line in the order they finish
+    const childLines = insertions
+      .filter((insertion) => insertion.afterLine === link.line)
+      .reduce((sum, insertion) => sum + insertion.lineCount, 0);
+    const insertAfter = Math.min(linkLine + childLines, editor.lastLine());
+
+    const text = editor.getLine(linkLine);
+    const baseIndent = text.match(/^(\s*)/)?.[1] ?? "";
+    const isListItem = /^\s*[-*+]\s/.test(text) || /^\s*\d+\.\s/.test(text);
+    const indent = isListItem ? baseIndent + "\t" : baseIndent;
+
+    const indented = summary
+      .trim()
+      .split("\n")
+      .map((l) => (l.trim() ? indent + l : ""))
+      .filter((l, i, arr) => l || i === 0 || arr[i - 1])
+      .join("\n");
+
+    editor.replaceRange("\n" + indented, {
+      line: insertAfter,
+      ch: editor.getLine(insertAfter).length,
+    });
+    insertions.push({ afterLine: link.line, lineCount: indented.split("\n").length });
+  }
+
+  private findLineContaining(editor: Editor, url: string): number | null {
+    for (let line = 0; line <= editor.lastLine(); line++) {
+      if (editor.getLine(line).includes(url)) return line;
+    }
+    return null;
+  }
+
+  /**
+   * Run a worker over all items with at most `batchConcurrency` in flight.
+   * Stops picking up new items once the signal is aborted.
+   */
+  private async runWithConcurrency<T>(
+    items: T[],
+    abortSignal: AbortSignal,
+    worker: (item: T) => Promise<void>
+  ): Promise<void> {
+    const limit = Math.max(1, Math.min(this.settings.batchConcurrency || 1, items.length));
+    let next = 0;
+
+    const runners = Array.from({ length: limit }, async () => {
+      while (next < items.length && !abortSignal.aborted) {
+        const item = items[next];
+        next += 1;
+        await worker(item);
+      }
+    });
+
+    await Promise.all(runners);
+  }
+
+  private reportFailures(failures: BatchFailure[]): void {
+    const lines = failures.slice(0, MAX_REPORTED_FAILURES).map((failure) => {
+      let host = failure.url;
+      try {
+        host = new URL(failure.url).hostname;
+      } catch {
+        // Keep the full URL
+      }
+      return `• ${host}: ${failure.message}`;
+    });
+    if (failures.length > MAX_REPORTED_FAILURES) {
+      lines.push(`…and ${failures.length - MAX_REPORTED_FAILURES} more (see console)`);
+    }
+
+    new Notice(
+      `Failed to summarize ${failures.length} ${failures.length === 1 ? "link" : "links"}:\n${lines.join("\n")}`,
+      10000
+    );
+  }
+}
@@ -0,0 +1,405 @@
+import { App, FuzzySuggestModal, Notice, TFile, TFolder, getAllTags, moment } from "obsidian";
+import { LLMService } from "../services/llm-service";
+import { SummaryNoteWriter } from "../services/note-writer";
+import { ProgressIndicator } from "../services/progress-indicator";
+import { hashString } from "../services/summary-cache";
+import { SummaryHistory } from "../services/summary-history";
+import { LLMResponse, SummarizeSettings } from "../types";
+
+interface BulkSuccess {
+  file: TFile;
+  model: string;
+  usage?: LLMResponse["usage"];
+  cost: number | null;
+}
+
+interface BulkSkip {
+  file: TFile;
+  reason: "unchanged" | "empty";
+}
+
+interface BulkFailure {
+  file: TFile;
+  message: string;
+}
+
+interface BulkResults {
+  succeeded: BulkSuccess[];
+  skipped: BulkSkip[];
+  failed: BulkFailure[];
+  cancelled: boolean;
+}
+
+const SUMMARY_HEADING = "## Summary";
+/** Ends the summary section; summaries may contain headings of their own, but not this */
+const SUMMARY_END_MARKER = "<!-- /summary -->";
+/** Frontmatter property holding the hash of the content that was last summarized */
+const HASH_PROPERTY = "summary_hash";
+const FRONTMATTER_REGEX = /^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/;
+
+/**
+ * Summarizes every note in a folder or with a tag, writing each summary into
+ * the note itself, and produces a report note
+ */
+export class BulkSummarizeAction {
+  private app: App;
+  private settings: SummarizeSettings;
+  private llmService: LLMService;
+  private summaryHistory: SummaryHistory;
+  private noteWriter: SummaryNoteWriter;
+  private progress: ProgressIndicator;
+
+  constructor(
+    app: App,
+    settings: SummarizeSettings,
+    llmService: LLMService,
+    summaryHistory: SummaryHistory,
+    progress: ProgressIndicator
+  ) {
+    this.app = app;
+    this.settings = settings;
+    this.llmService = llmService;
+    this.summaryHistory = summaryHistory;
+    this.progress = progress;
+    this.noteWriter = new SummaryNoteWriter(app, settings);
+  }
+
+  updateSettings(settings: SummarizeSettings): void {
+    this.settings = settings;
+    this.noteWriter.updateSettings(settings);
+  }
+
+  /**
+   * Pick a folder and summarize all notes in it (including subfolders)
+   */
+  summarizeFolderCommand(): void {
+    if (!this.llmService.isConfigured()) {
+      new Notice("Please configure your OpenRouter API key or another provider in settings.");
+      return;
+    }
+
+    new FolderSuggestModal(this.app, (folder) => this.summarizeFolder(folder)).open();
+  }
+
+  /**
+   * Pick a tag and summarize all notes that have it (or a nested tag)
+   */
+  summarizeTagCommand(): void {
+    if (!this.llmService.isConfigured()) {
+      new Notice("Please configure your OpenRouter API key or another provider in settings.");
+      return;
+    }
+
+    const tags = new Set<string>();
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      const cache = this.app.metadataCache.getFileCache(file);
+      (cache ? getAllTags(cache) ?? [] : []).forEach((tag) => tags.add(tag));
+    }
+
+    if (tags.size === 0) {
+      new Notice("No tags in this vault.");
+      return;
+    }
+
+    new TagSuggestModal(this.app, Array.from(tags).sort(), (tag) => this.summarizeTag(tag)).open();
+  }
+
+  async summarizeFolder(folder: TFolder): Promise<void> {
+    const prefix = folder.isRoot() ? "" : `${folder.path}/`;
+    const files = this.app.vault
+      .getMarkdownFiles()
+      .filter((file) => file.path.startsWith(prefix));
+    const label = folder.isRoot() ? "Vault" : `Folder "${folder.path}"`;
+    await this.summarizeFiles(files, label);
+  }
+
+  async summarizeTag(tag: string): Promise<void> {
+    const normalized = tag.toLowerCase();
+    const files = this.app.vault.getMarkdownFiles().filter((file) => {
+      const cache = this.app.metadataCache.getFileCache(file);
+      const fileTags = cache ? getAllTags(cache) ?? [] : [];
+      return fileTags.some((t) => {
+        const lower = t.toLowerCase();
+        return lower === normalized || lower.startsWith(`${normalized}/`);
+      });
+    });
+    await this.summarizeFiles(files, `Tag ${tag}`);
+  }
+
+  /**
+   * Summarize the given notes one by one, then write and open a report
+   */
+  private async summarizeFiles(files: TFile[], label: string): Promise<void> {
+    // Summary notes and earlier reports would otherwise be summarized too
+    const sorted = files
+      .filter((file) => !this.noteWriter.isOutputNote(file))
+      .sort((a, b) => a.path.localeCompare(b.path));
+    if (sorted.length === 0) {
+      new Notice(`No notes found for ${label}.`);
+      return;
+    }
+    const results: BulkResults = { succeeded: [], skipped: [], failed: [], cancelled: false };
+
+    // Cancelled from the status bar
+    const task = this.progress.start();
+    const abortController = task.abortController;
+
+    try {
+      for (let i = 0; i < sorted.length; i++) {
+        if (abortController.signal.aborted) break;
+
+        const file = sorted[i];
+        task.setDetail(`Note ${i + 1}/${sorted.length} (${file.basename})`);
+
+        try {
+          await this.summarizeFile(file, results, abortController.signal);
+        } catch (error) {
+          if (abortController.signal.aborted) break;
+          const message = error instanceof Error ? error.message : "Unknown error";
+          console.warn(`[Summarize] Failed to summarize ${file.path}:`, error);
+          results.failed.push({ file, message });
+        }
+      }
+    } finally {
+      task.finish();
+    }
+
+    results.cancelled = abortController.signal.aborted;
+
+    const report = await this.writeReport(label, results);
+    await this.app.workspace.getLeaf(true).openFile(report);
+
+    const summary =
+      `${results.succeeded.length} summarized, ${results.skipped.length} skipped, ` +
+      `${results.failed.length} failed`;
+    new Notice(results.cancelled ? `Bulk summarization cancelled: ${summary}` : `Bulk summarization done: ${summary}`);
+  }
+
+  /**
+   * Summarize one note unless its content is unchanged since the last run
+   */
+  private async summarizeFile(
+    file: TFile,
+    results: BulkResults,
+    abortSignal: AbortSignal
+  ): Promise<void> {
+    const body = this.getSummarizableContent(await this.app.vault.read(file));
+    if (!body) {
+      results.skipped.push({ file, reason: "empty" });
+      return;
+    }
+
+    const hash = hashString(body);
+    const previousHash = this.app.metadataCache.getFileCache(file)?.frontmatter?.[HASH_PROPERTY];
+    if (previousHash === hash) {
+      results.skipped.push({ file, reason: "unchanged" });
+      return;
+    }
+
+    const response = await this.llmService.summarize(body, {
+      length: this.settings.defaultLength,
+      abortSignal,
+      // Runs unattended, so editor commands go first
+      priority: "background",
+      context: {
+        title: file.basename,
+        noteTitle: file.basename,
+        frontmatter: this.app.metadataCache.getFileCache(file)?.frontmatter,
+        sourceType: "text",
+      },
+    });
+    const summary = response.content.trim();
+    if (!summary) {
+      throw new Error("Model returned an empty summary");
+    }
+    await this.summaryHistory.add({
+      title: file.basename,
+      notePath: file.path,
+      model: response.model,
+      length: this.settings.defaultLength,
+      content: summary,
+    });
+
+    if (this.settings.bulkSummaryTarget === "section") {
+      await this.app.vault.process(file, (data) => this.writeSummarySection(data, summary));
+    }
+
+    const property = this.settings.bulkSummaryProperty.trim() || "summary";
+    await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+      if (this.settings.bulkSummaryTarget === "frontmatter") {
+        frontmatter[property] = summary;
+      }
+      frontmatter[HASH_PROPERTY] = hash;
+    });
+
+    results.succeeded.push({
+      file,
+      model: response.model,
+      usage: response.usage,
+      cost: this.llmService.estimateCost(response.model, response.usage),
+    });
+  }
+
+  /**
+   * Note content without frontmatter and without a previously written summary section
+   */
+  private getSummarizableContent(data: string): string {
+    const body = data.replace(FRONTMATTER_REGEX, "");
+    if (this.settings.bulkSummaryTarget !== "section") return body.trim();
+
+    const lines = body.split("\n");
+    const section = this.findSummarySection(lines);
+    if (section) {
+      lines.splice(section.start, section.end - section.start);
+    }
+    return lines.join("\n").trim();
+  }
+
+  /**
+   * Replace the note's summary section, or add one at the top of the note body
+   */
+  private writeSummarySection(data: string, summary: string): string {
+    const frontmatter = data.match(FRONTMATTER_REGEX)?.[0] ?? "";
+    const lines = data.slice(frontmatter.length).split("\n");
+    const sectionLines = [SUMMARY_HEADING, "", summary, "", SUMMARY_END_MARKER, ""];
+
+    const section = this.findSummarySection(lines);
+    if (section) {
+      lines.splice(section.start, section.end - section.start, ...sectionLines);
+    } else {
+      lines.unshift(...sectionLines);
+    }
+
+    return frontmatter + lines.join("\n");
+  }
+
+  /**
+   * Line range of the summary section: from its heading through the end marker, or,
+   * for sections written without a marker, up to the next heading of level 1-2
+   */
+  private findSummarySection(lines: string[]): { start: number; end: number } | null {
+    const start = lines.findIndex((line) => line.trim() === SUMMARY_HEADING);
+    if (start === -1) return null;
+
+    const marker = lines.findIndex((line, i) => i > start && line.trim() === SUMMARY_END_MARKER);
+    if (marker !== -1) {
+      // Include the blank line written after the marker
+      return { start, end: marker + 1 < lines.length && !lines[marker + 1].trim() ? marker + 2 : marker + 1 };
+    }
+
+    let end = start + 1;
+    while (end < lines.length && !/^#{1,2}\s/.test(lines[end])) {
+      end++;
+    }
+    return { start, end };
+  }
+
+  /**
+   * Create the report note listing successes, skipped notes, failures, tokens and cost
+   */
+  private async writeReport(label: string, results: BulkResults): Promise<TFile> {
+    const now = moment();
+    const report = await this.noteWriter.createReportNote(
+      `Bulk summary report ${now.format("YYYY-MM-DD HHmm")}`,
+      ""
+    );
+    const link = (file: TFile) => this.app.fileManager.generateMarkdownLink(file, report.path);
+
+    const promptTokens = results.succeeded.reduce((sum, r) => sum + (r.usage?.prompt_tokens ?? 0), 0);
+    const completionTokens = results.succeeded.reduce((sum, r) => sum + (r.usage?.completion_tokens ?? 0), 0);
+    const knownCosts = results.succeeded.filter((r) => r.cost !== null);
+    const totalCost = knownCosts.reduce((sum, r) => sum + (r.cost ?? 0), 0);
+    const costNote =
+      knownCosts.length < results.succeeded.length ? " (pricing unknown for some models)" : "";
+
+    const lines = [
+      `# Bulk summary: ${label}${results.cancelled ? " (cancelled)" : ""}`,
+      "",
+      `- Date: ${now.format("YYYY-MM-DD HH:mm")}`,
+      `- Length: ${this.settings.defaultLength}`,
+      `- Summarized: ${results.succeeded.length}`,
+      `- Skipped: ${results.skipped.length}`,
+      `- Failed: ${results.failed.length}`,
+      `- Tokens: ${promptTokens + completionTokens} (${promptTokens} prompt, ${completionTokens} completion)`,
+      `- Estimated cost: $${totalCost.toFixed(4)}${costNote}`,
+    ];
+
+    if (results.succeeded.length > 0) {
+      lines.push("", "## Summarized", "", "| Note | Model | Tokens | Cost |", "|---|---|---|---|");
+      for (const r of results.succeeded) {
+        const tokens = r.usage ? String(r.usage.total_tokens) : "?";
+        const cost = r.cost !== null ? `$${r.cost.toFixed(4)}` : "?";
+        lines.push(`| ${link(r.file)} | ${r.model} | ${tokens} | ${cost} |`);
+      }
+    }
+
+    if (results.failed.length > 0) {
+      lines.push("", "## Failed", "");
+      results.failed.forEach((r) => lines.push(`- ${link(r.file)}: ${r.message}`));
+    }
+
+    if (results.skipped.length > 0) {
+      lines.push("", "## Skipped", "");
+      results.skipped.forEach((r) =>
+        lines.push(`- ${link(r.file)}: ${r.reason === "unchanged" ? "unchanged since last run" : "empty"}`)
+      );
+    }
+
+    await this.app.vault.process(report, (data) => data + lines.join("\n") + "\n");
+    return report;
+  }
+}
+
+/**
+ * Modal for picking a folder
+ */
+class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
+  private onChoose: (folder: TFolder) => void;
+
+  constructor(app: App, onChoose: (folder: TFolder) => void) {
+    super(app);
+    this.onChoose = onChoose;
+    this.setPlaceholder("Summarize all notes in folder...");
+  }
+
+  getItems(): TFolder[] {
+    return this.app.vault
+      .getAllLoadedFiles()
+      .filter((file): file is TFolder => file instanceof TFolder);
+  }
+
+  getItemText(folder: TFolder): string {
+    return folder.isRoot() ? "/" : folder.path;
+  }
+
+  onChooseItem(folder: TFolder): void {
+    this.onChoose(folder);
+  }
+}
+
+/**
+ * Modal for picking a tag
+ */
+class TagSuggestModal extends FuzzySuggestModal<string> {
+  private tags: string[];
+  private onChoose: (tag: string) => void;
+
+  constructor(app: App, tags: string[], onChoose: (tag: string) => void) {
+    super(app);
+    this.tags = tags;
+    this.onChoose = onChoose;
+    this.setPlaceholder("Summarize all notes with tag...");
+  }
+
+  getItems(): string[] {
+    return this.tags;
+  }
+
+  getItemText(tag: string): string {
+    return tag;
+  }
+
+  onChooseItem(tag: string): void {
+    this.onChoose(tag);
+  }
+}
@@ -1,14 +1,78 @@
-import { App, Editor, MarkdownView, Notice, Modal, Setting, EditorPosition } from "obsidian";
+import {
+  App,
+  Editor,
+  MarkdownView,
+  Notice,
+  Modal,
+  Setting,
+  TFile,
+  FuzzySuggestModal,
+} from "obsidian";
 import { ContentExtractor } from "../services/content-extractor";
 import { LLMService } from "../services/llm-service";
-import { SummarizeSettings, SummarizeOptions, SummaryLength } from "../types";
+import { SummaryCache, CachedSummary } from "../services/summary-cache";
+import { SummaryHistory } from "../services/summary-history";
+import { SummaryNoteWriter, SummaryNoteMeta } from "../services/note-writer";
+import { NoteResolver } from "../services/note-resolver";
+import { ProgressIndicator, ProgressTask } from "../services/progress-indicator";
+import {
+  SummarizeSettings,
+  SummarizeOptions,
+  SummaryLength,
+  InsertBehavior,
+  ExtractedContent,
+  SourceType,
+  SummarySource,
+  SummaryPreset,
+  PromptContext,
+  YOUTUBE_TIMESTAMP_INSTRUCTIONS,
+  CITATION_INSTRUCTIONS,
+} from "../types";
+import { segmentPassages, formatPassages, renderCitations } from "../services/citations";
+import {
+  SummaryRange,
+  getEditorView,
+  findSummaryRangeAt,
+  getSummaryRange,
+  replaceWithoutHistory,
+  replaceAsSummary,
+  trackSummaryRange,
+} from "../services/summary-ranges";
+import type { EditorView } from "@codemirror/view";
+
+/**
+ * Options for summarization actions. Presets can also override where the summary goes.
+ */
+export interface ActionOptions extends SummarizeOptions {
+  insertBehavior?: InsertBehavior;
+  /** Tracked summary to stream over instead of inserting below the cursor (see regenerate) */
+  replaceSummaryId?: string;
+}
+
+/**
+ * What an inserted summary was generated from, so it can be regenerated in place
+ */
+export type SummaryRequest =
+  | { kind: "url"; url: string; options?: ActionOptions }
+  | { kind: "text"; content: string; options?: ActionOptions }
+  | { kind: "text-with-urls"; text: string; urls: string[]; options?: ActionOptions };
 
 interface StreamingInsertContext {
   editor: Editor;
-  insertPos: EditorPosition;
+  /** Without a CodeMirror view, chunks are plain editor edits and the summary is not tracked */
+  view: EditorView | null;
+  /** Offset where the streamed text starts */
+  from: number;
+  /** Text being replaced (a summary that is regenerated), restored on undo */
+  original: string;
+  /** Id of the summary being regenerated */
+  replaceId?: string;
+  /** Inserted before the summary, e.g. the newline that puts it on its own line */
+  prefix: string;
   indent: string;
+  /** Aborted by the cancel button of the status bar progress */
   abortController: AbortController;
-  cleanup: () => void;
+  progress: ProgressTask;
   currentContent: string;
 }
 
@@ -20,94 +84,340 @@ export class SummarizeAction {
   private settings: SummarizeSettings;
   private contentExtractor: ContentExtractor;
   private llmService: LLMService;
+  private summaryCache: SummaryCache;
+  private summaryHistory: SummaryHistory;
+  private noteWriter: SummaryNoteWriter;
+  private noteResolver: NoteResolver;
+  private progress: ProgressIndicator;
+
+  /** Source of the most recent summary, for follow-up questions */
+  lastSource: SummarySource | null = null;
+  /** Called whenever a new source is summarized */
+  onSourceChange: ((source: SummarySource) => void) | null = null;
+
+  /** Requests behind the summaries inserted this session, by summary range id */
+  private summaryRequests = new Map<string, SummaryRequest>();
 
   constructor(
     app: App,
     settings: SummarizeSettings,
     contentExtractor: ContentExtractor,
-    llmService: LLMService
+    llmService: LLMService,
+    summaryCache: SummaryCache,
+    summaryHistory: SummaryHistory,
+    progress: ProgressIndicator
   ) {
     this.app = app;
     this.settings = settings;
     this.contentExtractor = contentExtractor;
     this.llmService = llmService;
+    this.summaryCache = summaryCache;
+    this.summaryHistory = summaryHistory;
+    this.progress = progress;
+    this.noteWriter = new SummaryNoteWriter(app, settings);
+    this.noteResolver = new NoteResolver(app, settings);
   }
 
   updateSettings(settings: SummarizeSettings): void {
     this.settings = settings;
+    this.noteWriter.updateSettings(settings);
+    this.noteResolver.updateSettings(settings);
+  }
+
+  private setSource(source: SummarySource): void {
+    this.lastSource = source;
+    this.onSourceChange?.(source);
   }
 
   /**
-   * Setup streaming insertion context
-   * Calculates insertion position below the current line, with proper indentation
-   */
-  private setupStreamingInsert(editor: Editor): StreamingInsertContext {
-    const selection = editor.getSelection();
-    const cursor = selection ? editor.getCursor("to") : editor.getCursor();
-    const line = editor.getLine(cursor.line);
-    const insertPos = { line: cursor.line, ch: line.length };
-
-    // Detect indentation of current line
-    const indentMatch = line.match(/^(\s*)/);
-    const baseIndent = indentMatch ? indentMatch[1] : "";
-
-    // Check if we're in a list item - if so, indent the summary as a sub-item
-    const isListItem = /^\s*[-*+]\s/.test(line) || /^\s*\d+\.\s/.test(line);
-    const indent = isListItem ? baseIndent + "\t" : baseIndent;
-
-    const abortController = new AbortController();
-
-    // Setup Escape key handler
-    const escapeHandler = (e: KeyboardEvent) => {
-      if (e.key === "Escape") {
-        abortController.abort();
-        e.preventDefault();
-        e.stopPropagation();
-      }
-    };
-    document.addEventListener("keydown", escapeHandler, true);
+   * Whether summaries can stream into the editor.
+   * Summaries saved as new notes are generated first, then written.
+   */
+  private canStreamIntoEditor(options?: ActionOptions): boolean {
+    return this.getInsertBehavior(options) !== "new-note";
+  }
 
-    const cleanup = () => {
-      document.removeEventListener("keydown", escapeHandler, true);
+  /**
+   * Apply the preset named in options.preset. Explicit options win over the preset.
+   */
+  resolveOptions(options?: ActionOptions): ActionOptions | undefined {
+    if (!options?.preset) return options;
+
+    const preset = this.settings.presets.find((p) => p.id === options.preset);
+    if (!preset) {
+      throw new Error(`Unknown summary preset "${options.preset}"`);
+    }
+
+    return {
+      prompt: preset.prompt.trim() || undefined,
+      model: preset.model.trim() || undefined,
+      length: preset.length,
+      temperature: preset.temperature ?? undefined,
+      insertBehavior: preset.insertBehavior === "default" ? undefined : preset.insertBehavior,
+      ...Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)),
     };
+  }
 
-    // Insert initial newline
-    editor.replaceRange("\n", insertPos);
+  private getInsertBehavior(options?: ActionOptions): InsertBehavior {
+    return options?.insertBehavior ?? this.settings.insertBehavior;
+  }
 
+  /**
+   * Record a generated summary in the summary history
+   */
+  async recordHistory(
+    source: { title: string; url?: string; notePath?: string },
+    summary: { content: string; model: string },
+    options?: SummarizeOptions
+  ): Promise<void> {
+    await this.summaryHistory.add({
+      ...source,
+      ...summary,
+      length: options?.length || this.settings.defaultLength,
+      preset: this.settings.presets.find((p) => p.id === options?.preset)?.name,
+    });
+  }
+
+  /**
+   * Prompt template variables for a source, plus the active note's title and frontmatter
+   */
+  getPromptContext(source: PromptContext, options?: SummarizeOptions): PromptContext {
+    const activeFile = this.app.workspace.getActiveFile();
     return {
+      noteTitle: activeFile?.basename,
+      frontmatter: activeFile
+        ? this.app.metadataCache.getFileCache(activeFile)?.frontmatter
+        : undefined,
+      language: options?.language,
+      ...source,
+    };
+  }
+
+  /**
+   * Setup streaming insertion context
+   * Calculates insertion position below the current line, with proper indentation,
+   * or takes the place of the tracked summary being regenerated
+   */
+  private setupStreamingInsert(
+    editor: Editor,
+    progress: ProgressTask,
+    replaceSummaryId?: string
+  ): StreamingInsertContext {
+    const view = getEditorView(editor);
+    const target = view && replaceSummaryId ? getSummaryRange(view, replaceSummaryId) : null;
+
+    let from: number;
+    let original = "";
+    let prefix = "\n";
+    let indent: string;
+
+    if (target) {
+      from = target.from;
+      original = editor.getRange(editor.offsetToPos(target.from), editor.offsetToPos(target.to));
+      prefix = "";
+      indent = original.match(/^[ \t]*/)?.[0] ?? "";
+    } else {
+      const selection = editor.getSelection();
+      const cursor = selection ? editor.getCursor("to") : editor.getCursor();
+      const line = editor.getLine(cursor.line);
+      from = editor.posToOffset({ line: cursor.line, ch: line.length });
+
+      // Detect indentation of current line
+      const indentMatch = line.match(/^(\s*)/);
+      const baseIndent = indentMatch ? indentMatch[1] : "";
+
+      // Check if we're in a list item - if so, indent the summary as a sub-item
+      const isListItem = /^\s*[-*+]\s/.test(line) || /^\s*\d+\.\s/.test(line);
+      indent = isListItem ? baseIndent + "\t" : baseIndent;
+    }
+
+    const ctx: StreamingInsertContext = {
       editor,
-      insertPos: { line: insertPos.line + 1, ch: 0 },
+      view,
+      from,
+      original,
+      replaceId: target?.id,
+      prefix,
       indent,
-      abortController,
-      cleanup,
+      abortController: progress.abortController,
+      progress,
       currentContent: "",
     };
+
+    // Insert the initial newline, or clear the summary being regenerated
+    this.editStreamed(ctx, from, from + original.length, prefix);
+    return ctx;
   }
 
   /**
    * Handle a streaming chunk - append to document
    */
   private handleStreamChunk(ctx: StreamingInsertContext, chunk: string): void {
-    // Apply indentation to new lines in the chunk
-    const processedChunk = chunk.replace(/\n/g, "\n" + ctx.indent);
-
-    // Calculate current end position
-    const lines = ctx.currentContent.split("\n");
-    const lastLineIndex = lines.length - 1;
-    const endPos: EditorPosition = {
-      line: ctx.insertPos.line + lastLineIndex,
-      ch: lastLineIndex === 0
-        ? ctx.indent.length + lines[lastLineIndex].length
-        : lines[lastLineIndex].length,
+    const before = this.renderStreamed(ctx, ctx.currentContent);
+    const after = this.renderStreamed(ctx, ctx.currentContent + chunk);
+    const end = ctx.from + before.length;
+
+    this.editStreamed(ctx, end, end, after.slice(before.length));
+    ctx.currentContent += chunk;
+    ctx.progress.addStreamed(chunk);
+  }
+
+  /**
+   * Replace everything streamed so far with new content (e.g. after post-processing)
+   */
+  private replaceStreamedContent(ctx: StreamingInsertContext, content: string): void {
+    const current = this.renderStreamed(ctx, ctx.currentContent);
+    this.editStreamed(ctx, ctx.from, ctx.from + current.length, this.renderStreamed(ctx, content));
+    ctx.currentContent = content;
+  }
+
+  /**
+   * The text streamed content occupies in the note: prefix, then every line indented
+   */
+  private renderStreamed(ctx: StreamingInsertContext, content: string): string {
+    return content ? ctx.prefix + ctx.indent + content.replace(/\n/g, "\n" + ctx.indent) : ctx.prefix;
+  }
+
+  /**
+   * Edit the streamed text. These edits stay out of the undo history;
+   * commitStreamedInsert records the finished summary as one step.
+   */
+  private editStreamed(ctx: StreamingInsertContext, from: number, to: number, text: string): void {
+    if (ctx.view) {
+      replaceWithoutHistory(ctx.view, from, to, text);
+    } else {
+      ctx.editor.replaceRange(text, ctx.editor.offsetToPos(from), ctx.editor.offsetToPos(to));
+    }
+  }
+
+  /**
+   * Record the streamed summary as a single undo step (undo brings back the
+   * summary it regenerated, if any) and track it so it can be regenerated
+   */
+  private commitStreamedInsert(ctx: StreamingInsertContext, request?: SummaryRequest): void {
+    if (!ctx.view) return;
+
+    const text = this.renderStreamed(ctx, ctx.currentContent);
+    replaceWithoutHistory(ctx.view, ctx.from, ctx.from + text.length, ctx.original);
+
+    // Nothing arrived: leave the note as it was
+    if (!ctx.currentContent) {
+      if (ctx.replaceId && ctx.original) {
+        trackSummaryRange(ctx.view, { id: ctx.replaceId, from: ctx.from, to: ctx.from + ctx.original.length });
+      }
+      return;
+    }
+
+    const range = request
+      ? this.registerSummary(request, ctx.from + ctx.prefix.length, ctx.from + text.length, ctx.replaceId)
+      : undefined;
+    replaceAsSummary(ctx.view, ctx.from, ctx.from + ctx.original.length, text, range);
+  }
+
+  /**
+   * Remember what a summary was generated from and give it a range id
+   */
+  private registerSummary(
+    request: SummaryRequest,
+    from: number,
+    to: number,
+    id: string = Date.now().toString(36) + Math.random().toString(36).slice(2, 6)
+  ): SummaryRange {
+    this.summaryRequests.set(id, request);
+    return { id, from, to };
+  }
+
+  /**
+   * Track a summary inserted in one edit (non-streaming)
+   */
+  private trackInsertedSummary(editor: Editor, request: SummaryRequest | undefined, from: number, to: number): void {
+    const view = getEditorView(editor);
+    if (!view || !request || from >= to) return;
+    trackSummaryRange(view, this.registerSummary(request, from, to));
+  }
+
+  /**
+   * The tracked summary at the cursor, if this session knows how it was generated
+   */
+  private getRegenerableSummary(editor: Editor): SummaryRange | null {
+    const view = getEditorView(editor);
+    const range = view ? findSummaryRangeAt(view, editor.posToOffset(editor.getCursor())) : null;
+    return range && this.summaryRequests.has(range.id) ? range : null;
+  }
+
+  /**
+   * Whether the cursor is inside a summary that can be regenerated
+   */
+  canRegenerateSummary(editor: Editor): boolean {
+    return this.getRegenerableSummary(editor) !== null;
+  }
+
+  /**
+   * Summarize the source of the summary at the cursor again, with a model and
+   * length picked in a modal, and stream the result over the old summary
+   */
+  async regenerateSummaryCommand(editor: Editor): Promise<void> {
+    const range = this.getRegenerableSummary(editor);
+    const request = range ? this.summaryRequests.get(range.id) : undefined;
+    if (!range || !request) {
+      new Notice("Place the cursor inside a summary inserted in this session to regenerate it.");
+      return;
+    }
+
+    if (!this.llmService.isConfigured()) {
+      new Notice("Please configure your OpenRouter API key or another provider in settings.");
+      return;
+    }
+
+    const choice = await new Promise<{ model?: string; length: SummaryLength } | null>((resolve) => {
+      new RegenerateSummaryModal(
+        this.app,
+        {
+          model: request.options?.model ?? "",
+          length: request.options?.length ?? this.settings.defaultLength,
+        },
+        resolve
+      ).open();
+    });
+    if (!choice) return;
+
+    const options: ActionOptions = {
+      ...request.options,
+      model: choice.model,
+      length: choice.length,
+      bypassCache: true,
+      insertBehavior: "below",
+      replaceSummaryId: range.id,
     };
 
-    // For the first chunk, add indent prefix
-    const textToInsert = ctx.currentContent === ""
-      ? ctx.indent + processedChunk
-      : processedChunk;
+    switch (request.kind) {
+      case "url":
+        await this.summarizeUrl(request.url, options);
+        break;
+      case "text":
+        await this.summarizeText(request.content, editor, options);
+        break;
+      case "text-with-urls":
+        await this.summarizeTextWithUrls(request.text, request.urls, editor, options);
+        break;
+    }
+  }
 
-    ctx.editor.replaceRange(textToInsert, endPos);
-    ctx.currentContent += chunk;
+  /**
+   * Show a summary's progress in the status bar. Model requests move it from
+   * queued to waiting, streamed chunks to streaming.
+   */
+  private trackProgress(task: ProgressTask): {
+    abortSignal: AbortSignal;
+    onRequestStart: (model: string) => void;
+    onProgress: (message: string) => void;
+  } {
+    task.setPhase("queued");
+    return {
+      abortSignal: task.abortController.signal,
+      onRequestStart: (model) => task.setModel(model),
+      onProgress: (message) => task.setDetail(message),
+    };
   }
 
   /**
@@ -116,29 +426,55 @@ export class SummarizeAction {
   private async executeStreamingSummarize(
     content: string,
     editor: Editor,
-    options?: { length?: SummaryLength; model?: string }
-  ): Promise<{ content: string; cancelled: boolean }> {
-    const ctx = this.setupStreamingInsert(editor);
-    let cancelled = false;
+    task: ProgressTask,
+    options?: {
+      length?: SummaryLength;
+      model?: string;
+      prompt?: string;
+      temperature?: number;
+      instructions?: string;
+      postProcess?: (summary: string) => string;
+      sourceType?: SourceType;
+      context?: PromptContext;
+      /** Recorded with the summary so it can be regenerated */
+      request?: SummaryRequest;
+      replaceSummaryId?: string;
+    }
+  ): Promise<{ content: string; model?: string; cancelled: boolean }> {
+    const ctx = this.setupStreamingInsert(editor, task, options?.replaceSummaryId);
 
     try {
       const response = await this.llmService.summarize(content, {
         length: options?.length || this.settings.defaultLength,
         model: options?.model,
+        prompt: options?.prompt,
+        temperature: options?.temperature,
+        instructions: options?.instructions,
+        ...this.trackProgress(task),
         onStream: (chunk) => this.handleStreamChunk(ctx, chunk),
-        abortSignal: ctx.abortController.signal,
+        // Another model is starting over: remove the partial summary so only one remains
+        onStreamReset: () => this.replaceStreamedContent(ctx, ""),
+        sourceType: options?.sourceType,
+        context: options?.context,
       });
 
-      return { content: response.content, cancelled: false };
+      if (options?.postProcess) {
+        const processed = options.postProcess(response.content);
+        if (processed !== ctx.currentContent) {
+          this.replaceStreamedContent(ctx, processed);
+        }
+        return { content: processed, model: response.model, cancelled: false };
+      }
+
+      return { content: response.content, model: response.model, cancelled: false };
     } catch (error) {
       if (error instanceof DOMException && error.name === "AbortError") {
-        cancelled = true;
         new Notice("Summarization cancelled");
         return { content: ctx.currentContent, cancelled: true };
       }
       throw error;
     } finally {
-      ctx.cleanup();
+      this.commitStreamedInsert(ctx, options?.request);
     }
   }
 
@@ -147,7 +483,7 @@ export class SummarizeAction {
    */
   async summarizeUrlCommand(): Promise<void> {
     if (!this.llmService.isConfigured()) {
-      new Notice("Please configure your OpenRouter API key in settings.");
+      new Notice("Please configure your OpenRouter API key or another provider in settings.");
       return;
     }
 
@@ -158,13 +494,39 @@ export class SummarizeAction {
     await this.summarizeUrl(url);
   }
 
+  /**
+   * Pick a preset, then summarize with it
+   */
+  summarizeWithPresetCommand(): void {
+    if (this.settings.presets.length === 0) {
+      new Notice("No presets configured. Add some in Settings → Presets.");
+      return;
+    }
+
+    new PresetSuggestModal(this.app, this.settings.presets, (preset) => {
+      this.runPreset(preset.id);
+    }).open();
+  }
+
+  /**
+   * Summarize the selection (or the whole note if nothing is selected) with a preset
+   */
+  async runPreset(presetId: string): Promise<void> {
+    const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+    if (view?.editor.getSelection().trim()) {
+      await this.summarizeSelectionCommand({ preset: presetId });
+    } else {
+      await this.summarizeNoteCommand({ preset: presetId });
+    }
+  }
+
   /**
    * Summarize the current selection
    * If selection contains URLs, fetches their content and includes it
    */
-  async summarizeSelectionCommand(): Promise<void> {
+  async summarizeSelectionCommand(options?: ActionOptions): Promise<void> {
     if (!this.llmService.isConfigured()) {
-      new Notice("Please configure your OpenRouter API key in settings.");
+      new Notice("Please configure your OpenRouter API key or another provider in settings.");
       return;
     }
 
@@ -185,18 +547,18 @@ export class SummarizeAction {
     // Check if selection is just a single URL
     const singleUrl = this.extractSingleUrl(selection);
     if (singleUrl) {
-      await this.summarizeUrl(singleUrl);
+      await this.summarizeUrl(singleUrl, options);
       return;
     }
 
     // Check if selection contains a URL - fetch and append its content
     const urls = this.extractUrls(selection);
     if (urls.length > 0) {
-      await this.summarizeTextWithUrls(selection, [urls[0]], editor);
+      await this.summarizeTextWithUrls(selection, [urls[0]], editor, options);
       return;
     }
 
-    await this.summarizeText(selection, editor);
+    await this.summarizeText(selection, editor, options);
   }
 
   /**
@@ -232,7 +594,7 @@ export class SummarizeAction {
   /**
    * Extract all URLs from text (bare URLs and markdown links)
    */
-  private extractUrls(text: string): string[] {
+  extractUrls(text: string): string[] {
     const urls: string[] = [];
     const seen = new Set<string>();
 
@@ -277,17 +639,24 @@ export class SummarizeAction {
     text: string,
     urls: string[],
     editor: Editor,
+    options?: ActionOptions,
     stream: boolean = true
   ): Promise<void> {
-    const notice = new Notice("Fetching linked content...", 0);
+    options = this.resolveOptions(options);
+    const request: SummaryRequest = { kind: "text-with-urls", text, urls, options };
+    const task = this.progress.start(options?.abortSignal);
 
     try {
       let combinedContent = text;
+      let firstTitle: string | undefined;
 
       for (const url of urls) {
         try {
-          notice.setMessage(`Fetching ${new URL(url).hostname}...`);
-          const extracted = await this.contentExtractor.extractFromUrl(url);
+          const host = new URL(url).hostname;
+          const extracted = await this.contentExtractor.extractFromUrl(url, (phase) =>
+            task.setPhase(phase, `${phase === "fetching" ? "Fetching" : "Extracting"} ${host}`)
+          );
+          firstTitle = firstTitle ?? extracted.title;
           combinedContent += `\n\n---\n\n## Content from: ${extracted.title}\nSource: ${url}\n\n${extracted.content}`;
         } catch (error) {
           console.warn(`[Summarize] Failed to fetch ${url}:`, error);
@@ -295,36 +664,82 @@ export class SummarizeAction {
         }
       }
 
-      notice.hide();
+      const activeFile = this.app.workspace.getActiveFile();
+      this.setSource({
+        title: activeFile?.basename ?? "Selection",
+        filePath: activeFile?.path,
+        content: combinedContent,
+      });
 
-      if (stream) {
-        const result = await this.executeStreamingSummarize(combinedContent, editor);
+      const length = options?.length || this.settings.defaultLength;
+      const context = this.getPromptContext(
+        { title: firstTitle ?? activeFile?.basename, url: urls[0], sourceType: "text" },
+        options
+      );
+      const historySource = { title: activeFile?.basename ?? "Selection", notePath: activeFile?.path };
+
+      if (stream && this.canStreamIntoEditor(options)) {
+        const result = await this.executeStreamingSummarize(combinedContent, editor, task, {
+          length,
+          model: options?.model,
+          prompt: options?.prompt,
+          temperature: options?.temperature,
+          context,
+          request,
+          replaceSummaryId: options?.replaceSummaryId,
+        });
         if (!result.cancelled) {
           new Notice("Summary complete!");
+          await this.recordHistory(
+            historySource,
+            { content: result.content, model: result.model || options?.model || this.settings.defaultModel },
+            options
+          );
         }
       } else {
-        const notice2 = new Notice("Summarizing...", 0);
         const response = await this.llmService.summarize(combinedContent, {
-          length: this.settings.defaultLength,
+          length,
+          model: options?.model,
+          prompt: options?.prompt,
+          temperature: options?.temperature,
+          context,
+          ...this.trackProgress(task),
         });
-        notice2.hide();
         new Notice("Summary complete!");
-        this.insertSummary(editor, response.content);
+        await this.recordHistory(historySource, { content: response.content, model: response.model }, options);
+        await this.insertSummary(
+          editor,
+          response.content,
+          { model: response.model, length },
+          this.getInsertBehavior(options),
+          request
+        );
       }
     } catch (error) {
-      notice.hide();
+      if (error instanceof DOMException && error.name === "AbortError") {
+        new Notice("Summarization cancelled");
+        return;
+      }
       const message = error instanceof Error ? error.message : "Unknown error";
       new Notice(`Failed to summarize: ${message}`);
       throw error;
+    } finally {
+      task.finish();
     }
   }
 
   /**
-   * Summarize the current note
+   * Summarize the current note (or the PDF open in the active leaf)
    */
-  async summarizeNoteCommand(): Promise<void> {
+  async summarizeNoteCommand(options?: ActionOptions): Promise<void> {
     if (!this.llmService.isConfigured()) {
-      new Notice("Please configure your OpenRouter API key in settings.");
+      new Notice("Please configure your OpenRouter API key or another provider in settings.");
+      return;
+    }
+
+    const activeFile = this.app.workspace.getActiveFile();
+    if (activeFile?.extension === "pdf") {
+      await this.summarizePdfFile(activeFile, options);
       return;
     }
 
@@ -335,14 +750,43 @@ export class SummarizeAction {
     }
 
     const editor = view.editor;
-    const content = editor.getValue();
+    const content = view.file
+      ? await this.noteResolver.resolve(editor.getValue(), view.file.path)
+      : editor.getValue();
 
     if (!content.trim()) {
       new Notice("Note is empty.");
       return;
     }
 
-    await this.summarizeText(content, editor);
+    await this.summarizeText(content, editor, options);
+  }
+
+  /**
+   * Summarize a PDF from the vault. PDF views have no editor, so the
+   * summary is copied to the clipboard.
+   */
+  private async summarizePdfFile(file: TFile, options?: ActionOptions): Promise<void> {
+    const task = this.progress.start();
+    task.setPhase("extracting", "Extracting PDF text");
+
+    let content: string;
+    try {
+      const data = await this.app.vault.readBinary(file);
+      const extracted = await this.contentExtractor.extractFromPdf(data, file.path, file.basename);
+      content = extracted.content;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      new Notice(`Failed to summarize: ${message}`);
+      throw error;
+    } finally {
+      task.finish();
+    }
+
+    const summary = await this.summarizeText(content, undefined, options);
+    if (!summary.trim()) return;
+    await navigator.clipboard.writeText(summary.trim());
+    new Notice("Summary copied to clipboard!");
   }
 
   /**
@@ -353,61 +797,185 @@ export class SummarizeAction {
    */
   async summarizeUrl(
     url: string,
-    options?: SummarizeOptions,
+    options?: ActionOptions,
     stream: boolean = true
   ): Promise<string> {
-    const notice = new Notice("Extracting content...", 0);
+    options = this.resolveOptions(options);
+    const request: SummaryRequest = { kind: "url", url, options };
+    const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+    const cacheKey = this.summaryCache.buildKey({ url }, { ...options, context: this.getPromptContext({}, options) });
+
+    if (!options?.bypassCache) {
+      const cached = await this.summaryCache.get(cacheKey);
+      if (cached) {
+        // Content is extracted on demand if a follow-up question is asked
+        this.setSource({ title: cached.title || url, url });
+        return this.useCachedSummary(cached, view?.editor, options, request);
+      }
+    }
+
+    const task = this.progress.start(options?.abortSignal);
 
     try {
       // Extract content from URL
-      const extracted = await this.contentExtractor.extractFromUrl(url);
+      const extracted = await this.contentExtractor.extractFromUrl(url, (phase) => task.setPhase(phase));
+      this.setSource({
+        title: extracted.title,
+        url,
+        content: extracted.content,
+        sourceType: extracted.sourceType,
+      });
+
+      const { content, instructions, postProcess } = this.getSourceFormatting(extracted);
+      const context = this.getPromptContext(
+        { title: extracted.title, url, sourceType: extracted.sourceType },
+        options
+      );
 
       // Get active editor for streaming
-      const view = this.app.workspace.getActiveViewOfType(MarkdownView);
       const editor = view?.editor;
 
       // Use streaming if enabled and we have an editor (and no custom onStream callback)
-      if (stream && editor && !options?.onStream) {
-        notice.setMessage(`Streaming ${extracted.wordCount} words...`);
-        notice.hide();
-
-        const result = await this.executeStreamingSummarize(extracted.content, editor, {
+      if (stream && editor && !options?.onStream && this.canStreamIntoEditor(options)) {
+        const result = await this.executeStreamingSummarize(content, editor, task, {
           length: options?.length,
           model: options?.model,
+          prompt: options?.prompt,
+          temperature: options?.temperature,
+          instructions,
+          postProcess,
+          sourceType: extracted.sourceType,
+          context,
+          request,
+          replaceSummaryId: options?.replaceSummaryId,
         });
 
         if (!result.cancelled) {
           new Notice("Summary complete!");
+          const model = result.model || options?.model || this.settings.defaultModel;
+          await this.summaryCache.set(cacheKey, {
+            content: result.content,
+            model,
+            title: extracted.title,
+            url,
+          });
+          await this.recordHistory({ title: extracted.title, url }, { content: result.content, model }, options);
         }
         return result.content;
       }
 
       // Non-streaming path
-      notice.setMessage(`Summarizing ${extracted.wordCount} words...`);
-
-      const response = await this.llmService.summarize(extracted.content, {
+      const progress = this.trackProgress(task);
+      const response = await this.llmService.summarize(content, {
         length: options?.length,
         model: options?.model,
+        prompt: options?.prompt,
+        temperature: options?.temperature,
+        instructions,
+        ...progress,
         onStream: options?.onStream,
+        onStreamReset: options?.onStreamReset,
+        sourceType: extracted.sourceType,
+        context,
+        onProgress: (message) => {
+          progress.onProgress(message);
+          options?.onProgress?.(message);
+        },
       });
 
-      notice.hide();
       new Notice("Summary complete!");
 
+      const summary = postProcess ? postProcess(response.content) : response.content;
+      await this.summaryCache.set(cacheKey, {
+        content: summary,
+        model: response.model,
+        title: extracted.title,
+        url,
+      });
+      await this.recordHistory({ title: extracted.title, url }, { content: summary, model: response.model }, options);
+
       // Insert the summary if we have an active editor and no custom stream handler
       if (editor && !options?.onStream) {
-        this.insertSummary(editor, response.content, extracted.title, url);
+        await this.insertSummary(
+          editor,
+          summary,
+          {
+            title: extracted.title,
+            url,
+            model: response.model,
+            length: options?.length || this.settings.defaultLength,
+          },
+          this.getInsertBehavior(options),
+          request
+        );
       }
 
-      return response.content;
+      return summary;
     } catch (error) {
-      notice.hide();
+      if (error instanceof DOMException && error.name === "AbortError") {
+        new Notice("Summarization cancelled");
+        return "";
+      }
       const message = error instanceof Error ? error.message : "Unknown error";
       new Notice(`Failed to summarize: ${message}`);
       throw error;
+    } finally {
+      task.finish();
     }
   }
 
+  /**
+   * Get the content to send, source-specific prompt instructions and output
+   * post-processing (e.g. timestamp links for YouTube transcripts, passage citations)
+   * @param allowCitations - false where footnotes would not fit, e.g. nested batch summaries
+   */
+  getSourceFormatting(extracted: ExtractedContent, allowCitations: boolean = true): {
+    content: string;
+    instructions?: string;
+    postProcess?: (summary: string) => string;
+  } {
+    let content = extracted.content;
+    const instructions: string[] = [];
+    const postProcessors: ((summary: string) => string)[] = [];
+
+    const citationMode = allowCitations ? this.settings.citationMode : "off";
+    if (citationMode !== "off") {
+      const passages = extracted.passages ?? segmentPassages(extracted.content);
+      extracted.passages = passages;
+      content = formatPassages(passages);
+      instructions.push(CITATION_INSTRUCTIONS);
+      postProcessors.push((summary) => {
+        const result = renderCitations(summary, passages, {
+          mode: citationMode,
+          url: extracted.url || undefined,
+          textFragments: extracted.sourceType === "web",
+        });
+        if (result.unmatched > 0) {
+          new Notice(
+            `${result.unmatched} ${result.unmatched === 1 ? "citation does" : "citations do"} not match any source passage and ${result.unmatched === 1 ? "is" : "are"} flagged in the summary`
+          );
+        }
+        return result.content;
+      });
+    }
+
+    if (extracted.sourceType === "youtube" && this.settings.youtubeTimestampLinks) {
+      instructions.push(YOUTUBE_TIMESTAMP_INSTRUCTIONS);
+      postProcessors.push((summary) =>
+        this.contentExtractor.linkYouTubeTimestamps(summary, extracted.url)
+      );
+    }
+
+    return {
+      content,
+      instructions: instructions.length > 0 ? instructions.join("\n\n") : undefined,
+      postProcess:
+        postProcessors.length > 0
+          ? (summary) => postProcessors.reduce((text, process) => process(text), summary)
+          : undefined,
+    };
+  }
+
   /**
    * Summarize text content (internal implementation)
    * @param content - Text content to summarize
@@ -418,64 +986,173 @@ export class SummarizeAction {
   async summarizeText(
     content: string,
     editor?: Editor,
-    options?: SummarizeOptions,
+    options?: ActionOptions,
     stream: boolean = true
   ): Promise<string> {
-    // Use streaming if enabled and we have an editor (and no custom onStream callback)
-    if (stream && editor && !options?.onStream) {
-      const result = await this.executeStreamingSummarize(content, editor, {
-        length: options?.length,
-        model: options?.model,
-      });
+    options = this.resolveOptions(options);
+    const request: SummaryRequest = { kind: "text", content, options };
+    const activeFile = this.app.workspace.getActiveFile();
+    const context = this.getPromptContext({ title: activeFile?.basename, sourceType: "text" }, options);
+    const cacheKey = this.summaryCache.buildKey({ content }, { ...options, context });
+    const historySource = { title: activeFile?.basename ?? "Text", notePath: activeFile?.path };
+    this.setSource({
+      title: activeFile?.basename ?? "Text",
+      filePath: activeFile?.path,
+      content,
+    });
 
-      if (!result.cancelled) {
-        new Notice("Summary complete!");
+    if (!options?.bypassCache) {
+      const cached = await this.summaryCache.get(cacheKey);
+      if (cached) {
+        return this.useCachedSummary(cached, editor, options, request);
       }
-      return result.content;
     }
 
-    // Non-streaming path
-    const notice = new Notice("Summarizing...", 0);
+    const { content: promptContent, instructions, postProcess } = this.getSourceFormatting({
+      title: activeFile?.basename ?? "Text",
+      content,
+      url: "",
+      wordCount: content.split(/\s+/).filter(Boolean).length,
+    });
+
+    const task = this.progress.start(options?.abortSignal);
 
     try {
-      const response = await this.llmService.summarize(content, {
+      // Use streaming if enabled and we have an editor (and no custom onStream callback)
+      if (stream && editor && !options?.onStream && this.canStreamIntoEditor(options)) {
+        const result = await this.executeStreamingSummarize(promptContent, editor, task, {
+          length: options?.length,
+          model: options?.model,
+          prompt: options?.prompt,
+          temperature: options?.temperature,
+          instructions,
+          postProcess,
+          context,
+          request,
+          replaceSummaryId: options?.replaceSummaryId,
+        });
+
+        if (!result.cancelled) {
+          new Notice("Summary complete!");
+          const model = result.model || options?.model || this.settings.defaultModel;
+          await this.summaryCache.set(cacheKey, { content: result.content, model });
+          await this.recordHistory(historySource, { content: result.content, model }, options);
+        }
+        return result.content;
+      }
+
+      // Non-streaming path
+      const progress = this.trackProgress(task);
+      const response = await this.llmService.summarize(promptContent, {
         length: options?.length,
         model: options?.model,
+        prompt: options?.prompt,
+        temperature: options?.temperature,
+        instructions,
+        context,
+        ...progress,
         onStream: options?.onStream,
+        onStreamReset: options?.onStreamReset,
+        onProgress: (message) => {
+          progress.onProgress(message);
+          options?.onProgress?.(message);
+        },
       });
 
-      notice.hide();
       new Notice("Summary complete!");
+      const summary = postProcess ? postProcess(response.content) : response.content;
+      await this.summaryCache.set(cacheKey, {
+        content: summary,
+        model: response.model,
+      });
+      await this.recordHistory(historySource, { content: summary, model: response.model }, options);
 
       // Insert the summary if we have an editor
       if (editor && !options?.onStream) {
-        this.insertSummary(editor, response.content);
+        await this.insertSummary(
+          editor,
+          summary,
+          { model: response.model, length: options?.length || this.settings.defaultLength },
+          this.getInsertBehavior(options),
+          request
+        );
       }
 
-      return response.content;
+      return summary;
     } catch (error) {
-      notice.hide();
+      if (error instanceof DOMException && error.name === "AbortError") {
+        new Notice("Summarization cancelled");
+        return "";
+      }
       const message = error instanceof Error ? error.message : "Unknown error";
       new Notice(`Failed to summarize: ${message}`);
       throw error;
+    } finally {
+      task.finish();
     }
   }
 
   /**
-   * Insert summary into the editor based on settings
+   * Deliver a cached summary through the same channel a fresh one would use
    */
-  private insertSummary(
+  private async useCachedSummary(
+    cached: CachedSummary,
+    editor: Editor | undefined,
+    options?: ActionOptions,
+    request?: SummaryRequest
+  ): Promise<string> {
+    if (options?.onStream) {
+      options.onStream(cached.content);
+    } else if (editor) {
+      await this.insertSummary(
+        editor,
+        cached.content,
+        {
+          title: cached.title,
+          url: cached.url,
+          model: cached.model,
+          length: options?.length || this.settings.defaultLength,
+        },
+        this.getInsertBehavior(options),
+        request
+      );
+    }
+    new Notice("Summary loaded from cache");
+    return cached.content;
+  }
+
+  /**
+   * Insert summary into the editor based on settings (or a preset's insert behavior)
+   * @param request - What the summary was generated from; summaries inserted into the note with one can be regenerated
+   */
+  async insertSummary(
     editor: Editor,
     summary: string,
-    title?: string,
-    url?: string
-  ): void {
-    const formattedSummary = this.formatSummary(summary, title, url);
+    meta: SummaryNoteMeta = {},
+    behavior: InsertBehavior = this.settings.insertBehavior,
+    request?: SummaryRequest
+  ): Promise<void> {
+    const formattedSummary = this.formatSummary(summary, meta.title, meta.url);
+
+    switch (behavior) {
+      case "new-note": {
+        const sourcePath = this.app.workspace.getActiveFile()?.path ?? "";
+        const file = await this.noteWriter.createNote(formattedSummary, {
+          ...meta,
+          title: meta.title || this.app.workspace.getActiveFile()?.basename,
+        });
+        const link = this.app.fileManager.generateMarkdownLink(file, sourcePath);
+        editor.replaceRange(link, editor.getCursor("to"));
+        new Notice(`Summary saved to ${file.path}`);
+        break;
+      }
 
-    switch (this.settings.insertBehavior) {
-      case "replace":
+      case "replace": {
+        const from = editor.posToOffset(editor.getCursor("from"));
         editor.replaceSelection(formattedSummary);
+        this.trackInsertedSummary(editor, request, from, from + formattedSummary.length);
         break;
+      }
 
       case "clipboard":
         navigator.clipboard.writeText(formattedSummary);
@@ -511,6 +1188,8 @@ export class SummarizeAction {
 
         // Single newline before summary
         editor.replaceRange("\n" + indentedSummary, insertPos);
+        const from = editor.posToOffset(insertPos) + 1;
+        this.trackInsertedSummary(editor, request, from, from + indentedSummary.length);
         break;
       }
     }
@@ -615,3 +1294,107 @@ class UrlInputModal extends Modal {
     contentEl.empty();
   }
 }
+
+/**
+ * Modal for picking a summary preset
+ */
+class PresetSuggestModal extends FuzzySuggestModal<SummaryPreset> {
+  private presets: SummaryPreset[];
+  private onChoose: (preset: SummaryPreset) => void;
+
+  constructor(app: App, presets: SummaryPreset[], onChoose: (preset: SummaryPreset) => void) {
+    super(app);
+    this.presets = presets;
+    this.onChoose = onChoose;
+    this.setPlaceholder("Summarize with preset...");
+  }
+
+  getItems(): SummaryPreset[] {
+    return this.presets;
+  }
+
+  getItemText(preset: SummaryPreset): string {
+    return preset.name || preset.id;
+  }
+
+  onChooseItem(preset: SummaryPreset): void {
+    this.onChoose(preset);
+  }
+}
+
+/**
+ * Modal for picking the model and length to regenerate a summary with
+ */
+class RegenerateSummaryModal extends Modal {
+  private model: string;
+  private length: SummaryLength;
+  private onSubmit: (choice: { model?: string; length: SummaryLength } | null) => void;
+  private submitted = false;
+
+  constructor(
+    app: App,
+    initial: { model: string; length: SummaryLength },
+    onSubmit: (choice: { model?: string; length: SummaryLength } | null) => void
+  ) {
+    super(app);
+    this.model = initial.model;
+    this.length = initial.length;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    contentEl.createEl("h3", { text: "Regenerate summary" });
+
+    new Setting(contentEl)
+      .setName("Model")
+      .setDesc('Model ID, "provider:model" or "auto-free". Leave empty for the default model.')
+      .addText((text) => {
+        text
+          .setPlaceholder("auto-free")
+          .setValue(this.model)
+          .onChange((value) => {
+            this.model = value;
+          });
+        text.inputEl.addEventListener("keydown", (e) => {
+          if (e.key === "Enter") {
+            this.submit();
+          }
+        });
+      });
+
+    new Setting(contentEl).setName("Length").addDropdown((dropdown) =>
+      dropdown
+        .addOption("brief", "Brief (~50 words)")
+        .addOption("short", "Short (~100 words)")
+        .addOption("medium", "Medium (~250 words)")
+        .addOption("long", "Long (~500 words)")
+        .setValue(this.length)
+        .onChange((value) => {
+          this.length = value as SummaryLength;
+        })
+    );
+
+    new Setting(contentEl)
+      .addButton((btn) =>
+        btn
+          .setButtonText("Regenerate")
+          .setCta()
+          .onClick(() => this.submit())
+      )
+      .addButton((btn) => btn.setButtonText("Cancel").onClick(() => this.close()));
+  }
+
+  private submit(): void {
+    this.submitted = true;
+    this.close();
+    this.onSubmit({ model: this.model.trim() || undefined, length: this.length });
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    if (!this.submitted) this.onSubmit(null);
+  }
+}
@@ -0,0 +1,354 @@
+import { App, Editor, FuzzySuggestModal, Modal, Notice, Setting, TFile } from "obsidian";
+import { ContentExtractor } from "../services/content-extractor";
+import { LLMService } from "../services/llm-service";
+import { NoteResolver } from "../services/note-resolver";
+import { ProgressIndicator } from "../services/progress-indicator";
+import { SummaryCache } from "../services/summary-cache";
+import { SummarizeAction } from "./summarize";
+import { SummarizeSettings } from "../types";
+
+interface SynthesisSource {
+  title: string;
+  url?: string;
+  file?: TFile;
+}
+
+interface SummarizedSource extends SynthesisSource {
+  summary: string;
+}
+
+const MIN_SOURCES = 2;
+
+/**
+ * Summarizes several URLs and notes independently, then compares them in one
+ * synthesis with numbered citations
+ */
+export class SynthesizeAction {
+  private app: App;
+  private settings: SummarizeSettings;
+  private contentExtractor: ContentExtractor;
+  private llmService: LLMService;
+  private summaryCache: SummaryCache;
+  private summarizeAction: SummarizeAction;
+  private noteResolver: NoteResolver;
+  private progress: ProgressIndicator;
+
+  constructor(
+    app: App,
+    settings: SummarizeSettings,
+    contentExtractor: ContentExtractor,
+    llmService: LLMService,
+    summaryCache: SummaryCache,
+    summarizeAction: SummarizeAction,
+    progress: ProgressIndicator
+  ) {
+    this.app = app;
+    this.settings = settings;
+    this.contentExtractor = contentExtractor;
+    this.llmService = llmService;
+    this.summaryCache = summaryCache;
+    this.summarizeAction = summarizeAction;
+    this.progress = progress;
+    this.noteResolver = new NoteResolver(app, settings);
+  }
+
+  updateSettings(settings: SummarizeSettings): void {
+    this.settings = settings;
+    this.noteResolver.updateSettings(settings);
+  }
+
+  /**
+   * Pick sources (URLs in the selection are pre-filled), then insert their synthesis
+   */
+  async synthesizeCommand(editor: Editor): Promise<void> {
+    if (!this.llmService.isConfigured()) {
+      new Notice("Please configure your OpenRouter API key or another provider in settings.");
+      return;
+    }
+
+    const initialUrls = this.summarizeAction.extractUrls(editor.getSelection());
+    const sources = await new Promise<SynthesisSource[] | null>((resolve) => {
+      new SynthesisSourcesModal(this.app, initialUrls, resolve).open();
+    });
+    if (!sources) return;
+
+    // Cancelled from the status bar
+    const task = this.progress.start();
+    const abortController = task.abortController;
+    const summarized: SummarizedSource[] = [];
+    const failures: string[] = [];
+
+    try {
+      for (let i = 0; i < sources.length; i++) {
+        if (abortController.signal.aborted) break;
+
+        const source = sources[i];
+        task.setDetail(`Source ${i + 1}/${sources.length} (${source.title})`);
+
+        try {
+          summarized.push(await this.summarizeSource(source, abortController.signal));
+        } catch (error) {
+          if (abortController.signal.aborted) break;
+          const message = error instanceof Error ? error.message : "Unknown error";
+          console.warn(`[Summarize] Failed to summarize ${source.url ?? source.file?.path}:`, error);
+          failures.push(`${source.title}: ${message}`);
+        }
+      }
+
+      if (abortController.signal.aborted) {
+        new Notice("Synthesis cancelled");
+        return;
+      }
+      if (summarized.length < MIN_SOURCES) {
+        new Notice(`Synthesis needs at least ${MIN_SOURCES} sources that could be summarized.\n${failures.join("\n")}`, 10000);
+        return;
+      }
+
+      task.setPhase("queued", `Comparing ${summarized.length} sources`);
+      const response = await this.llmService.synthesize(summarized, {
+        length: this.settings.defaultLength,
+        abortSignal: abortController.signal,
+        onRequestStart: (model) => task.setModel(model),
+      });
+
+      const synthesis = this.formatSynthesis(response.content, summarized);
+      const title = `Synthesis of ${summarized.map((s) => s.title).join(", ")}`;
+      await this.summarizeAction.recordHistory(
+        { title, notePath: this.app.workspace.getActiveFile()?.path },
+        { content: synthesis, model: response.model },
+        { length: this.settings.defaultLength }
+      );
+      await this.summarizeAction.insertSummary(editor, synthesis, {
+        title,
+        model: response.model,
+        length: this.settings.defaultLength,
+      });
+      new Notice(`Synthesized ${summarized.length} sources`);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") {
+        new Notice("Synthesis cancelled");
+        return;
+      }
+      const message = error instanceof Error ? error.message : "Unknown error";
+      new Notice(`Failed to synthesize: ${message}`);
+      throw error;
+    } finally {
+      task.finish();
+    }
+
+    if (failures.length > 0) {
+      new Notice(`Left out ${failures.length} ${failures.length === 1 ? "source" : "sources"}:\n${failures.join("\n")}`, 10000);
+    }
+  }
+
+  /**
+   * Summarize one source on its own; URL summaries use the summary cache
+   */
+  private async summarizeSource(source: SynthesisSource, abortSignal: AbortSignal): Promise<SummarizedSource> {
+    const length = this.settings.defaultLength;
+
+    if (source.file) {
+      const data = await this.app.vault.cachedRead(source.file);
+      const content = await this.noteResolver.resolve(data, source.file.path);
+      if (!content.trim()) throw new Error("Note is empty");
+
+      const response = await this.llmService.summarize(content, {
+        length,
+        abortSignal,
+        context: { title: source.title, noteTitle: source.file.basename, sourceType: "text" },
+      });
+      await this.summarizeAction.recordHistory(
+        { title: source.file.basename, notePath: source.file.path },
+        { content: response.content, model: response.model },
+        { length }
+      );
+      return { ...source, summary: response.content };
+    }
+
+    const url = source.url ?? "";
+    const cacheKey = this.summaryCache.buildKey({ url }, { length, citations: false });
+    const cached = await this.summaryCache.get(cacheKey);
+    if (cached) {
+      return { ...source, title: cached.title || source.title, summary: cached.content };
+    }
+
+    const extracted = await this.contentExtractor.extractFromUrl(url);
+    // Passage citations would not survive the synthesis pass
+    const { content, instructions, postProcess } = this.summarizeAction.getSourceFormatting(extracted, false);
+    const response = await this.llmService.summarize(content, {
+      length,
+      instructions,
+      abortSignal,
+      sourceType: extracted.sourceType,
+      context: { title: extracted.title, url, sourceType: extracted.sourceType },
+    });
+
+    const summary = postProcess ? postProcess(response.content) : response.content;
+    await this.summaryCache.set(cacheKey, {
+      content: summary,
+      model: response.model,
+      title: extracted.title,
+      url,
+    });
+    await this.summarizeAction.recordHistory(
+      { title: extracted.title, url },
+      { content: summary, model: response.model },
+      { length }
+    );
+    return { ...source, title: extracted.title || source.title, summary };
+  }
+
+  /**
+   * Append the numbered source list the citations refer to
+   */
+  private formatSynthesis(synthesis: string, sources: SummarizedSource[]): string {
+    const sourcePath = this.app.workspace.getActiveFile()?.path ?? "";
+    const list = sources.map((source, i) => {
+      const link = source.file
+        ? this.app.fileManager.generateMarkdownLink(source.file, sourcePath)
+        : `[${source.title}](${source.url})`;
+      return `${i + 1}. ${link}`;
+    });
+
+    return `${synthesis.trim()}\n\n### Sources\n\n${list.join("\n")}`;
+  }
+}
+
+/**
+ * Modal for choosing the URLs and notes to synthesize
+ */
+class SynthesisSourcesModal extends Modal {
+  private urlsText: string;
+  private files: TFile[] = [];
+  private onSubmit: (sources: SynthesisSource[] | null) => void;
+  private submitted = false;
+
+  constructor(app: App, initialUrls: string[], onSubmit: (sources: SynthesisSource[] | null) => void) {
+    super(app);
+    this.urlsText = initialUrls.join("\n");
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen(): void {
+    this.render();
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    contentEl.createEl("h3", { text: "Synthesize sources" });
+
+    new Setting(contentEl)
+      .setName("URLs")
+      .setDesc("One per line")
+      .addTextArea((text) => {
+        text
+          .setPlaceholder("https://example.com/article")
+          .setValue(this.urlsText)
+          .onChange((value) => {
+            this.urlsText = value;
+          });
+        text.inputEl.rows = 5;
+        text.inputEl.style.width = "100%";
+      });
+
+    new Setting(contentEl)
+      .setName("Notes")
+      .setDesc(this.files.length === 0 ? "No notes added" : `${this.files.length} added`)
+      .addButton((btn) =>
+        btn.setButtonText("Add note").onClick(() => {
+          new NoteSuggestModal(this.app, this.files, (file) => {
+            this.files.push(file);
+            this.render();
+          }).open();
+        })
+      );
+
+    for (const file of this.files) {
+      new Setting(contentEl).setName(file.basename).setDesc(file.path).addExtraButton((btn) =>
+        btn
+          .setIcon("x")
+          .setTooltip("Remove")
+          .onClick(() => {
+            this.files = this.files.filter((f) => f !== file);
+            this.render();
+          })
+      );
+    }
+
+    new Setting(contentEl)
+      .addButton((btn) =>
+        btn
+          .setButtonText("Synthesize")
+          .setCta()
+          .onClick(() => this.submit())
+      )
+      .addButton((btn) => btn.setButtonText("Cancel").onClick(() => this.close()));
+  }
+
+  private submit(): void {
+    const urls = Array.from(
+      new Set(
+        this.urlsText
+          .split("\n")
+          .map((line) => line.trim())
+          .filter(Boolean)
+      )
+    );
+
+    for (const url of urls) {
+      try {
+        new URL(url);
+      } catch {
+        new Notice(`Not a valid URL: ${url}`);
+        return;
+      }
+    }
+
+    const sources: SynthesisSource[] = [
+      ...urls.map((url) => ({ title: new URL(url).hostname, url })),
+      ...this.files.map((file) => ({ title: file.basename, file })),
+    ];
+    if (sources.length < MIN_SOURCES) {
+      new Notice(`Add at least ${MIN_SOURCES} sources`);
+      return;
+    }
+
+    this.submitted = true;
+    this.close();
+    this.onSubmit(sources);
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    if (!this.submitted) this.onSubmit(null);
+  }
+}
+
+/**
+ * Modal for picking a note that is not yet a source
+ */
+class NoteSuggestModal extends FuzzySuggestModal<TFile> {
+  private exclude: TFile[];
+  private onChoose: (file: TFile) => void;
+
+  constructor(app: App, exclude: TFile[], onChoose: (file: TFile) => void) {
+    super(app);
+    this.exclude = exclude;
+    this.onChoose = onChoose;
+    this.setPlaceholder("Add a note to synthesize...");
+  }
+
+  getItems(): TFile[] {
+    return this.app.vault.getMarkdownFiles().filter((file) => !this.exclude.includes(file));
+  }
+
+  getItemText(file: TFile): string {
+    return file.path;
+  }
+
+  onChooseItem(file: TFile): void {
+    this.onChoose(file);
+  }
+}
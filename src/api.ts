@@ -0,0 +1,167 @@
+// ============================================================================
+// Public API for other plugins
+// ============================================================================
+//
+// Available as `app.plugins.getPlugin("summarize").api`. This file has no
+// imports, so other plugins can copy it into their source to type the API.
+
+/**
+ * Version of the API object. Bumped when members are added or changed;
+ * check `api.version` before using members newer than version 1.
+ *
+ * 1: summarize, summarizeUrl, summarizeStructured, summarizeUrlStructured, isConfigured
+ * 2: summarizeResult, summarizeUrlResult, extractUrl, listModels, on/off events, abortSignal
+ * 3: structured option of summarize and summarizeUrl
+ */
+export const SUMMARIZE_API_VERSION = 3;
+
+export type SummaryLength = "brief" | "short" | "medium" | "long";
+export type SourceType = "web" | "pdf" | "youtube";
+
+export interface SummarizeOptions {
+  /** Summary length: brief (~50 words), short (~100 words), medium (~250 words), long (~500 words) */
+  length?: SummaryLength;
+  /** Override the default model */
+  model?: string;
+  /** Custom prompt template. See the README for the available variables and {{#if}} blocks */
+  prompt?: string;
+  /** Output language, available to prompt templates as {{language}} */
+  language?: string;
+  /** ID of a summary preset; its prompt, model, length and temperature apply unless overridden */
+  preset?: string;
+  /** Sampling temperature (provider default if omitted) */
+  temperature?: number;
+  /** Optional callback for streaming responses */
+  onStream?: (chunk: string) => void;
+  /**
+   * Called when everything streamed so far must be discarded because a model failed
+   * mid-stream and the next model in the fallback chain starts over. Without it, such
+   * failures are not retried with another model.
+   */
+  onStreamReset?: () => void;
+  /** Optional callback for progress messages (e.g. "Summarizing chunk 3/9...") */
+  onProgress?: (message: string) => void;
+  /** Skip the summary cache and always call the model */
+  bypassCache?: boolean;
+  /** Cancels the request; the promise then rejects with a DOMException named "AbortError" */
+  abortSignal?: AbortSignal;
+  /**
+   * Return a StructuredSummary instead of Markdown from summarize and summarizeUrl.
+   * Structured summaries are not streamed or cached; the *Result methods ignore this.
+   */
+  structured?: boolean;
+}
+
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+/**
+ * A summary with where it came from
+ */
+export interface SummaryResult {
+  content: string;
+  /** Model that wrote the summary (a concrete model when "auto-free" was requested) */
+  model: string;
+  /** Missing for cached summaries and providers that do not report usage */
+  usage?: TokenUsage;
+  /** Title of the summarized page, video or PDF */
+  title?: string;
+  url?: string;
+  /** Whether the summary came from the summary cache */
+  cached: boolean;
+}
+
+export interface ExtractedContent {
+  title: string;
+  content: string;
+  url: string;
+  wordCount: number;
+  sourceType?: SourceType;
+  /** Content split into citable passages (only when citations are enabled) */
+  passages?: Passage[];
+}
+
+/**
+ * A few paragraphs of source content that summary bullets can cite by id
+ */
+export interface Passage {
+  /** "P1", "P2", ... */
+  id: string;
+  text: string;
+}
+
+export interface StructuredSummary {
+  /** One or two sentence summary */
+  tldr: string;
+  keyPoints: string[];
+  /** People, organizations, products, places, concepts mentioned */
+  entities: { name: string; type: string }[];
+  actionItems: string[];
+  openQuestions: string[];
+  sourceTitle: string;
+}
+
+/**
+ * An OpenRouter model from the plugin's cached model list
+ */
+export interface SummarizeModelInfo {
+  id: string;
+  name: string;
+  contextLength: number;
+  maxCompletionTokens?: number;
+  /** USD per token */
+  pricing: { prompt: number; completion: number };
+  free: boolean;
+}
+
+/**
+ * Payloads of the events emitted for summaries requested through the API.
+ * All events of one request share its id.
+ */
+export interface SummarizeEventMap {
+  "summary-start": { id: string; url?: string; options?: SummarizeOptions };
+  /**
+   * Streamed text; `text` is everything streamed so far. It starts over when a model
+   * fails mid-stream and the next model in the fallback chain takes over.
+   */
+  "summary-chunk": { id: string; chunk: string; text: string };
+  "summary-complete": { id: string; result: SummaryResult };
+  /** Also emitted when the request was aborted */
+  "summary-error": { id: string; error: Error };
+}
+
+export type SummarizeEventName = keyof SummarizeEventMap;
+
+export interface SummarizeAPI {
+  /** See SUMMARIZE_API_VERSION */
+  readonly version: number;
+  /** Summarize text content */
+  summarize(content: string, options: SummarizeOptions & { structured: true }): Promise<StructuredSummary>;
+  summarize(content: string, options?: SummarizeOptions): Promise<string>;
+  /** Summarize content from a URL */
+  summarizeUrl(url: string, options: SummarizeOptions & { structured: true }): Promise<StructuredSummary>;
+  summarizeUrl(url: string, options?: SummarizeOptions): Promise<string>;
+  /** Summarize text content, returning the model, usage and cache status with the summary */
+  summarizeResult(content: string, options?: SummarizeOptions): Promise<SummaryResult>;
+  /** Summarize content from a URL, returning its title, the model, usage and cache status with the summary */
+  summarizeUrlResult(url: string, options?: SummarizeOptions): Promise<SummaryResult>;
+  /**
+   * Same as summarize with `structured: true`; kept for API version 1 callers,
+   * which have no structured option
+   */
+  summarizeStructured(content: string, options?: SummarizeOptions): Promise<StructuredSummary>;
+  /** Same as summarizeUrl with `structured: true`; kept for API version 1 callers */
+  summarizeUrlStructured(url: string, options?: SummarizeOptions): Promise<StructuredSummary>;
+  /** Extract the readable content of a web page, PDF or YouTube video without summarizing it */
+  extractUrl(url: string): Promise<ExtractedContent>;
+  /** OpenRouter models from the plugin's model cache (empty until models are fetched in settings) */
+  listModels(): SummarizeModelInfo[];
+  /** Check if the plugin is configured (has API key) */
+  isConfigured(): boolean;
+  /** Subscribe to summary events; returns a function that unsubscribes */
+  on<E extends SummarizeEventName>(event: E, callback: (payload: SummarizeEventMap[E]) => void): () => void;
+  off<E extends SummarizeEventName>(event: E, callback: (payload: SummarizeEventMap[E]) => void): void;
+}
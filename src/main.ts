@@ -1,21 +1,51 @@
-import { Plugin, Editor, MarkdownView, Menu, Notice } from "obsidian";
+import { Plugin, Editor, MarkdownView, Menu, Notice, TFolder, normalizePath } from "obsidian";
 import {
   SummarizeSettings,
   SummarizeAPI,
   SummarizeOptions,
+  SummaryResult,
+  SummarizeModelInfo,
+  StructuredSummary,
+  ExtractedContent,
   DEFAULT_SETTINGS,
+  SUMMARIZE_API_VERSION,
 } from "./types";
 import { ContentExtractor } from "./services/content-extractor";
 import { LLMService } from "./services/llm-service";
+import { SummaryCache } from "./services/summary-cache";
+import { SummaryHistory } from "./services/summary-history";
+import { SummarizeEvents } from "./services/summarize-events";
+import { RequestScheduler, SchedulerStatus } from "./services/request-scheduler";
+import { ProgressIndicator } from "./services/progress-indicator";
+import { summaryRangeField } from "./services/summary-ranges";
+import { UsageLedger } from "./services/usage-ledger";
 import { SummarizeAction } from "./actions/summarize";
+import { BatchSummarizeAction } from "./actions/batch-summarize";
+import { BulkSummarizeAction } from "./actions/bulk-summarize";
+import { SynthesizeAction } from "./actions/synthesize";
 import { SummarizeSettingTab } from "./settings";
+import { SourceChatView, CHAT_VIEW_TYPE } from "./views/chat-view";
+import { SummaryHistoryView, HISTORY_VIEW_TYPE } from "./views/history-view";
 
 export default class SummarizePlugin extends Plugin {
   settings!: SummarizeSettings;
   llmService!: LLMService;
+  summaryCache!: SummaryCache;
+  summaryHistory!: SummaryHistory;
+  usageLedger!: UsageLedger;
 
   private contentExtractor!: ContentExtractor;
+  private scheduler!: RequestScheduler;
+  private queueStatusEl!: HTMLElement;
+  private progressIndicator!: ProgressIndicator;
   private summarizeAction!: SummarizeAction;
+  private batchSummarizeAction!: BatchSummarizeAction;
+  private bulkSummarizeAction!: BulkSummarizeAction;
+  private synthesizeAction!: SynthesizeAction;
+  private presetCommandIds: string[] = [];
+  /** Ids and names of the presets the preset commands were registered for */
+  private presetCommandsKey = "";
+  private apiEvents = new SummarizeEvents();
 
   /**
    * Public API for other plugins to use
@@ -27,13 +57,81 @@ export default class SummarizePlugin extends Plugin {
 
     // Initialize services
     this.contentExtractor = new ContentExtractor();
-    this.llmService = new LLMService(this.settings);
+    this.usageLedger = new UsageLedger(this.app, this.getDataFilePath("usage-ledger.json"));
+    this.scheduler = new RequestScheduler(this.settings);
+    this.llmService = new LLMService(this.settings, this.usageLedger, this.scheduler);
+    this.summaryCache = new SummaryCache(
+      this.app,
+      this.getDataFilePath("summary-cache.json"),
+      this.settings
+    );
+    this.summaryHistory = new SummaryHistory(
+      this.app,
+      this.getDataFilePath("summary-history.json"),
+      this.settings
+    );
+    // Phase, elapsed time and cancel button of running summaries in the status bar
+    this.progressIndicator = new ProgressIndicator(this.addStatusBarItem());
     this.summarizeAction = new SummarizeAction(
       this.app,
       this.settings,
       this.contentExtractor,
-      this.llmService
+      this.llmService,
+      this.summaryCache,
+      this.summaryHistory,
+      this.progressIndicator
+    );
+    this.batchSummarizeAction = new BatchSummarizeAction(
+      this.app,
+      this.settings,
+      this.contentExtractor,
+      this.llmService,
+      this.summaryCache,
+      this.summarizeAction,
+      this.progressIndicator
+    );
+    this.bulkSummarizeAction = new BulkSummarizeAction(
+      this.app,
+      this.settings,
+      this.llmService,
+      this.summaryHistory,
+      this.progressIndicator
+    );
+    this.synthesizeAction = new SynthesizeAction(
+      this.app,
+      this.settings,
+      this.contentExtractor,
+      this.llmService,
+      this.summaryCache,
+      this.summarizeAction,
+      this.progressIndicator
+    );
+
+    // Follow-up chat about the last summarized source
+    this.registerView(
+      CHAT_VIEW_TYPE,
+      (leaf) => new SourceChatView(leaf, this.llmService, this.contentExtractor)
+    );
+    this.summarizeAction.onSourceChange = (source) => {
+      this.getChatViews().forEach((view) => view.setSource(source));
+    };
+
+    // Searchable history of past summaries
+    this.registerView(
+      HISTORY_VIEW_TYPE,
+      (leaf) => new SummaryHistoryView(leaf, this.summaryHistory, this.summarizeAction)
     );
+    this.summaryHistory.onChange = () => {
+      this.getHistoryViews().forEach((view) => view.refresh());
+    };
+
+    // Request queue status in the status bar
+    this.queueStatusEl = this.addStatusBarItem();
+    this.updateQueueStatus(this.scheduler.getStatus());
+    this.scheduler.onChange = (status) => this.updateQueueStatus(status);
+
+    // Track inserted summaries so they can be regenerated in place
+    this.registerEditorExtension(summaryRangeField);
 
     // Initialize public API
     this.api = this.createAPI();
@@ -54,7 +152,80 @@ export default class SummarizePlugin extends Plugin {
     this.addCommand({
       id: "summarize-note",
       name: "Summarize current note",
-      editorCallback: () => this.summarizeAction.summarizeNoteCommand(),
+      callback: () => this.summarizeAction.summarizeNoteCommand(),
+    });
+
+    this.addCommand({
+      id: "open-source-chat",
+      name: "Ask follow-up questions about the last summary",
+      callback: () => this.activateChatView(),
+    });
+
+    this.addCommand({
+      id: "open-summary-history",
+      name: "Open summary history",
+      callback: () => this.activateHistoryView(),
+    });
+
+    this.addCommand({
+      id: "summarize-with-preset",
+      name: "Summarize with preset...",
+      callback: () => this.summarizeAction.summarizeWithPresetCommand(),
+    });
+    this.registerPresetCommands();
+
+    this.addCommand({
+      id: "regenerate-summary",
+      name: "Regenerate summary here",
+      editorCheckCallback: (checking, editor) => {
+        if (!this.summarizeAction.canRegenerateSummary(editor)) return false;
+        if (!checking) this.summarizeAction.regenerateSummaryCommand(editor);
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "summarize-all-links",
+      name: "Summarize all links in note",
+      editorCallback: (editor) => this.batchSummarizeAction.summarizeLinksCommand(editor),
+    });
+
+    this.addCommand({
+      id: "synthesize-sources",
+      name: "Synthesize sources",
+      editorCallback: (editor) => this.synthesizeAction.synthesizeCommand(editor),
+    });
+
+    // Same as the status bar's cancel button, but can be bound to a hotkey
+    this.addCommand({
+      id: "cancel-summarization",
+      name: "Cancel summarization",
+      checkCallback: (checking) => {
+        if (!this.progressIndicator.isRunning()) return false;
+        if (!checking) this.progressIndicator.cancelCurrent();
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "summarize-folder",
+      name: "Summarize all notes in folder",
+      callback: () => this.bulkSummarizeAction.summarizeFolderCommand(),
+    });
+
+    this.addCommand({
+      id: "summarize-tag",
+      name: "Summarize all notes with tag",
+      callback: () => this.bulkSummarizeAction.summarizeTagCommand(),
+    });
+
+    this.addCommand({
+      id: "clear-summary-cache",
+      name: "Clear summary cache",
+      callback: async () => {
+        const count = await this.summaryCache.clear();
+        new Notice(`Cleared ${count} cached ${count === 1 ? "summary" : "summaries"}`);
+      },
     });
 
     // Add settings tab
@@ -63,6 +234,15 @@ export default class SummarizePlugin extends Plugin {
     // Register right-click context menu for links
     this.registerEvent(
       this.app.workspace.on("editor-menu", (menu, editor, view) => {
+        if (this.summarizeAction.canRegenerateSummary(editor)) {
+          menu.addItem((item) => {
+            item
+              .setTitle("Regenerate summary here")
+              .setIcon("refresh-cw")
+              .onClick(() => this.summarizeAction.regenerateSummaryCommand(editor));
+          });
+        }
+
         const url = this.getUrlAtCursor(editor);
         if (url) {
           menu.addItem((item) => {
@@ -77,10 +257,94 @@ export default class SummarizePlugin extends Plugin {
       })
     );
 
+    // Register file explorer context menu for folders
+    this.registerEvent(
+      this.app.workspace.on("file-menu", (menu, file) => {
+        if (file instanceof TFolder) {
+          menu.addItem((item) => {
+            item
+              .setTitle("Summarize notes in folder")
+              .setIcon("file-text")
+              .onClick(() => {
+                if (!this.llmService.isConfigured()) {
+                  new Notice("Please configure your OpenRouter API key or another provider in settings.");
+                  return;
+                }
+                this.bulkSummarizeAction.summarizeFolder(file);
+              });
+          });
+        }
+      })
+    );
+
     console.log("[Summarize] Plugin loaded");
   }
 
+  /**
+   * Open (or reveal) the source chat in the right sidebar
+   */
+  private async activateChatView(): Promise<void> {
+    let leaf = this.app.workspace.getLeavesOfType(CHAT_VIEW_TYPE)[0];
+    if (!leaf) {
+      const rightLeaf = this.app.workspace.getRightLeaf(false);
+      if (!rightLeaf) return;
+      leaf = rightLeaf;
+      await leaf.setViewState({ type: CHAT_VIEW_TYPE, active: true });
+    }
+
+    await this.app.workspace.revealLeaf(leaf);
+    if (leaf.view instanceof SourceChatView) {
+      leaf.view.setSource(this.summarizeAction.lastSource);
+    }
+  }
+
+  private getChatViews(): SourceChatView[] {
+    return this.app.workspace
+      .getLeavesOfType(CHAT_VIEW_TYPE)
+      .map((leaf) => leaf.view)
+      .filter((view): view is SourceChatView => view instanceof SourceChatView);
+  }
+
+  /**
+   * Open (or reveal) the summary history in the right sidebar
+   */
+  private async activateHistoryView(): Promise<void> {
+    let leaf = this.app.workspace.getLeavesOfType(HISTORY_VIEW_TYPE)[0];
+    if (!leaf) {
+      const rightLeaf = this.app.workspace.getRightLeaf(false);
+      if (!rightLeaf) return;
+      leaf = rightLeaf;
+      await leaf.setViewState({ type: HISTORY_VIEW_TYPE, active: true });
+    }
+
+    await this.app.workspace.revealLeaf(leaf);
+  }
+
+  private getHistoryViews(): SummaryHistoryView[] {
+    return this.app.workspace
+      .getLeavesOfType(HISTORY_VIEW_TYPE)
+      .map((leaf) => leaf.view)
+      .filter((view): view is SummaryHistoryView => view instanceof SummaryHistoryView);
+  }
+
+  /**
+   * Show how many model requests are running and waiting, hidden while idle
+   */
+  private updateQueueStatus(status: SchedulerStatus): void {
+    const queued = status.queued.interactive + status.queued.background;
+    this.queueStatusEl.toggle(status.running + queued > 0);
+    this.queueStatusEl.setText(
+      queued > 0 ? `Summarize: ${status.running} running, ${queued} queued` : `Summarize: ${status.running} running`
+    );
+    this.queueStatusEl.setAttribute(
+      "aria-label",
+      `${status.queued.interactive} interactive and ${status.queued.background} background requests queued`
+    );
+  }
+
   onunload(): void {
+    this.apiEvents.clear();
+    this.progressIndicator.destroy();
     console.log("[Summarize] Plugin unloaded");
   }
 
@@ -92,8 +356,46 @@ export default class SummarizePlugin extends Plugin {
     await this.saveData(this.settings);
 
     // Update services with new settings
+    this.scheduler.updateSettings(this.settings);
     this.llmService.updateSettings(this.settings);
+    this.summaryCache.updateSettings(this.settings);
+    this.summaryHistory.updateSettings(this.settings);
     this.summarizeAction.updateSettings(this.settings);
+    this.batchSummarizeAction.updateSettings(this.settings);
+    this.bulkSummarizeAction.updateSettings(this.settings);
+    this.synthesizeAction.updateSettings(this.settings);
+    this.registerPresetCommands();
+  }
+
+  /**
+   * Register one command per preset so each can get its own hotkey.
+   * Re-registered when presets are added, renamed or removed.
+   */
+  private registerPresetCommands(): void {
+    const key = JSON.stringify(this.settings.presets.map((preset) => [preset.id, preset.name]));
+    if (key === this.presetCommandsKey) return;
+    this.presetCommandsKey = key;
+
+    this.presetCommandIds.forEach((id) => this.removeCommand(id));
+    this.presetCommandIds = [];
+
+    for (const preset of this.settings.presets) {
+      const id = `preset-${preset.id}`;
+      this.addCommand({
+        id,
+        name: `Summarize with preset: ${preset.name || preset.id}`,
+        callback: () => this.summarizeAction.runPreset(preset.id),
+      });
+      this.presetCommandIds.push(id);
+    }
+  }
+
+  /**
+   * Path of a data file inside the plugin folder
+   */
+  private getDataFilePath(filename: string): string {
+    const dir = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+    return normalizePath(`${dir}/${filename}`);
   }
 
   /**
@@ -101,47 +403,238 @@ export default class SummarizePlugin extends Plugin {
    */
   private createAPI(): SummarizeAPI {
     return {
-      summarize: async (
-        content: string,
-        options?: SummarizeOptions
-      ): Promise<string> => {
-        if (!this.llmService.isConfigured()) {
-          throw new Error("Summarize plugin is not configured. Please add an OpenRouter API key.");
-        }
+      version: SUMMARIZE_API_VERSION,
+
+      // Overloaded in SummarizeAPI: the structured option changes the return type
+      summarize: (async (content: string, options?: SummarizeOptions) => {
+        if (options?.structured) return this.summarizeStructuredForApi({ content }, options);
+        return (await this.summarizeForApi({ content }, options)).content;
+      }) as SummarizeAPI["summarize"],
 
-        const response = await this.llmService.summarize(content, {
-          length: options?.length,
-          model: options?.model,
-          prompt: options?.prompt,
-          onStream: options?.onStream,
-        });
+      summarizeUrl: (async (url: string, options?: SummarizeOptions) => {
+        if (options?.structured) return this.summarizeStructuredForApi({ url }, options);
+        return (await this.summarizeForApi({ url }, options)).content;
+      }) as SummarizeAPI["summarizeUrl"],
 
-        return response.content;
+      summarizeResult: (content: string, options?: SummarizeOptions): Promise<SummaryResult> => {
+        return this.summarizeForApi({ content }, options);
       },
 
-      summarizeUrl: async (
-        url: string,
-        options?: SummarizeOptions
-      ): Promise<string> => {
-        if (!this.llmService.isConfigured()) {
-          throw new Error("Summarize plugin is not configured. Please add an OpenRouter API key.");
-        }
+      summarizeUrlResult: (url: string, options?: SummarizeOptions): Promise<SummaryResult> => {
+        return this.summarizeForApi({ url }, options);
+      },
+
+      summarizeStructured: (content: string, options?: SummarizeOptions): Promise<StructuredSummary> => {
+        return this.summarizeStructuredForApi({ content }, options);
+      },
 
-        const extracted = await this.contentExtractor.extractFromUrl(url);
+      summarizeUrlStructured: (url: string, options?: SummarizeOptions): Promise<StructuredSummary> => {
+        return this.summarizeStructuredForApi({ url }, options);
+      },
 
-        const response = await this.llmService.summarize(extracted.content, {
-          length: options?.length,
-          model: options?.model,
-          prompt: options?.prompt,
-          onStream: options?.onStream,
-        });
+      extractUrl: (url: string): Promise<ExtractedContent> => {
+        return this.contentExtractor.extractFromUrl(url);
+      },
 
-        return response.content;
+      listModels: (): SummarizeModelInfo[] => {
+        return this.settings.openRouter.models.map((model) => ({
+          id: model.id,
+          name: model.name,
+          contextLength: model.context_length,
+          maxCompletionTokens: model.max_completion_tokens,
+          pricing: { prompt: model.pricing.prompt, completion: model.pricing.completion },
+          free: this.llmService.isModelFree(model),
+        }));
       },
 
       isConfigured: (): boolean => {
         return this.llmService.isConfigured();
       },
+
+      on: (event, callback) => this.apiEvents.on(event, callback),
+      off: (event, callback) => this.apiEvents.off(event, callback),
+    };
+  }
+
+  private assertConfigured(): void {
+    if (!this.llmService.isConfigured()) {
+      throw new Error("Summarize plugin is not configured. Please add an OpenRouter API key or another provider.");
+    }
+  }
+
+  private throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new DOMException("Aborted", "AbortError");
+    }
+  }
+
+  /**
+   * Summarize text or a URL for the API, using the summary cache and emitting lifecycle events
+   */
+  private async summarizeForApi(
+    source: { content: string } | { url: string },
+    options?: SummarizeOptions
+  ): Promise<SummaryResult> {
+    this.assertConfigured();
+    const url = "url" in source ? source.url : undefined;
+    const id = Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+    this.apiEvents.emit("summary-start", { id, url, options });
+
+    try {
+      options = this.summarizeAction.resolveOptions(options);
+      this.throwIfAborted(options?.abortSignal);
+
+      let streamed = "";
+      const onStream = (chunk: string) => {
+        streamed += chunk;
+        options?.onStream?.(chunk);
+        this.apiEvents.emit("summary-chunk", { id, chunk, text: streamed });
+      };
+      const resetStream = () => {
+        streamed = "";
+        options?.onStreamReset?.();
+      };
+
+      // Identical requests already in flight (same source and options) are joined, not repeated.
+      // The shared request always streams, so every caller and chunk listener gets the text as it arrives.
+      const { result } = await this.scheduler.dedupe(
+        this.getApiCacheKey(source, options),
+        (shared) => {
+          const sharedOptions = { ...options, ...shared };
+          return "url" in source
+            ? this.summarizeUrlForApi(source.url, sharedOptions)
+            : this.summarizeContentForApi(source.content, sharedOptions);
+        },
+        {
+          abortSignal: options?.abortSignal,
+          onStream,
+          // Callers that stream without handling resets fail instead of seeing the text start over
+          onStreamReset: options?.onStream && !options.onStreamReset ? undefined : resetStream,
+        }
+      );
+      this.apiEvents.emit("summary-complete", { id, result });
+      return result;
+    } catch (error) {
+      this.apiEvents.emit("summary-error", {
+        id,
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Structured summary for the API (onStream is ignored)
+   */
+  private async summarizeStructuredForApi(
+    source: { content: string } | { url: string },
+    options?: SummarizeOptions
+  ): Promise<StructuredSummary> {
+    this.assertConfigured();
+    options = this.summarizeAction.resolveOptions(options);
+
+    const extracted: Partial<ExtractedContent> & { content: string } =
+      "url" in source ? await this.contentExtractor.extractFromUrl(source.url) : { content: source.content };
+    this.throwIfAborted(options?.abortSignal);
+    const response = await this.llmService.summarizeStructured(extracted.content, {
+      length: options?.length,
+      model: options?.model,
+      title: extracted.title,
+      onProgress: options?.onProgress,
+      abortSignal: options?.abortSignal,
+      priority: "background",
+      sourceType: extracted.sourceType,
+    });
+    return response.structured;
+  }
+
+  /**
+   * Cache key of an API summary. The API renders prompts without note context,
+   * so only the caller's options (language, temperature, ...) matter.
+   */
+  private getApiCacheKey(source: { content: string } | { url: string }, options?: SummarizeOptions): string {
+    return this.summaryCache.buildKey(source, {
+      ...options,
+      context: "content" in source ? { sourceType: "text" } : {},
+    });
+  }
+
+  private async summarizeContentForApi(content: string, options: SummarizeOptions): Promise<SummaryResult> {
+    const cacheKey = this.getApiCacheKey({ content }, options);
+    const cached = options.bypassCache ? null : await this.summaryCache.get(cacheKey);
+    if (cached) {
+      options.onStream?.(cached.content);
+      return { content: cached.content, model: cached.model, cached: true };
+    }
+
+    const response = await this.llmService.summarize(content, {
+      length: options.length,
+      model: options.model,
+      prompt: options.prompt,
+      temperature: options.temperature,
+      context: { language: options.language, sourceType: "text" },
+      onStream: options.onStream,
+      onStreamReset: options.onStreamReset,
+      onProgress: options.onProgress,
+      abortSignal: options.abortSignal,
+      priority: "background",
+    });
+
+    await this.summaryCache.set(cacheKey, { content: response.content, model: response.model });
+    await this.summarizeAction.recordHistory(
+      { title: "Text" },
+      { content: response.content, model: response.model },
+      options
+    );
+    return { content: response.content, model: response.model, usage: response.usage, cached: false };
+  }
+
+  private async summarizeUrlForApi(url: string, options: SummarizeOptions): Promise<SummaryResult> {
+    const cacheKey = this.getApiCacheKey({ url }, options);
+    const cached = options.bypassCache ? null : await this.summaryCache.get(cacheKey);
+    if (cached) {
+      options.onStream?.(cached.content);
+      return { content: cached.content, model: cached.model, title: cached.title, url, cached: true };
+    }
+
+    const extracted = await this.contentExtractor.extractFromUrl(url);
+    this.throwIfAborted(options.abortSignal);
+    const { content, instructions, postProcess } = this.summarizeAction.getSourceFormatting(extracted);
+
+    const response = await this.llmService.summarize(content, {
+      length: options.length,
+      model: options.model,
+      prompt: options.prompt,
+      temperature: options.temperature,
+      instructions,
+      onStream: options.onStream,
+      onStreamReset: options.onStreamReset,
+      onProgress: options.onProgress,
+      abortSignal: options.abortSignal,
+      priority: "background",
+      sourceType: extracted.sourceType,
+      context: { title: extracted.title, url, language: options.language },
+    });
+
+    const summary = postProcess ? postProcess(response.content) : response.content;
+    await this.summaryCache.set(cacheKey, {
+      content: summary,
+      model: response.model,
+      title: extracted.title,
+      url,
+    });
+    await this.summarizeAction.recordHistory(
+      { title: extracted.title, url },
+      { content: summary, model: response.model },
+      options
+    );
+    return {
+      content: summary,
+      model: response.model,
+      usage: response.usage,
+      title: extracted.title,
+      url,
+      cached: false,
     };
   }
 
@@ -0,0 +1,173 @@
+import { CitationMode, Passage } from "../types";
+
+const MIN_PASSAGE_CHARS = 200;
+const MAX_PASSAGE_CHARS = 800;
+/** Quote length in footnotes and in link text */
+const FOOTNOTE_QUOTE_CHARS = 240;
+const LINK_QUOTE_CHARS = 80;
+/** Words of the passage used as the text fragment to scroll to */
+const FRAGMENT_WORDS = 8;
+
+const CITATION_REGEX = /\[(P\d+(?:\s*[,;]\s*P\d+)*)\]/g;
+
+export interface CitationOptions {
+  mode: Exclude<CitationMode, "off">;
+  /** Source URL that citation links point to */
+  url?: string;
+  /** Add #:~:text= fragments so browsers scroll to the passage (web pages only) */
+  textFragments?: boolean;
+}
+
+/**
+ * Split content into passages of a few paragraphs each, so a summary can cite them by id
+ */
+export function segmentPassages(content: string): Passage[] {
+  const pieces: string[] = [];
+  for (const paragraph of content.split(/\n\s*\n/)) {
+    const text = paragraph.trim();
+    if (!text) continue;
+    pieces.push(...splitLongParagraph(text));
+  }
+
+  const passages: Passage[] = [];
+  let current = "";
+  for (const piece of pieces) {
+    if (current && current.length + piece.length > MAX_PASSAGE_CHARS) {
+      passages.push({ id: `P${passages.length + 1}`, text: current });
+      current = "";
+    }
+    current = current ? `${current}\n\n${piece}` : piece;
+    if (current.length >= MIN_PASSAGE_CHARS) {
+      passages.push({ id: `P${passages.length + 1}`, text: current });
+      current = "";
+    }
+  }
+  if (current) {
+    passages.push({ id: `P${passages.length + 1}`, text: current });
+  }
+
+  return passages;
+}
+
+/**
+ * Content as sent to the model, each passage prefixed with its id
+ */
+export function formatPassages(passages: Passage[]): string {
+  return passages.map((passage) => `[${passage.id}] ${passage.text}`).join("\n\n");
+}
+
+/**
+ * Replace [P3]-style passage ids in a summary with footnotes or quote links.
+ * Ids that match no passage are flagged in place.
+ */
+export function renderCitations(
+  summary: string,
+  passages: Passage[],
+  options: CitationOptions
+): { content: string; unmatched: number } {
+  const byId = new Map(passages.map((passage) => [passage.id, passage]));
+  // Footnote labels get a per-summary prefix so several summaries can live in one note
+  const prefix = Date.now().toString(36).slice(-4);
+  const footnotes = new Map<string, string>();
+  let unmatched = 0;
+
+  const content = summary.replace(CITATION_REGEX, (_, ids: string) => {
+    const rendered: string[] = [];
+    const missing: string[] = [];
+
+    for (const id of ids.split(/\s*[,;]\s*/)) {
+      const passage = byId.get(id);
+      if (!passage) {
+        missing.push(id);
+        continue;
+      }
+
+      if (options.mode === "footnotes") {
+        if (!footnotes.has(id)) {
+          footnotes.set(id, `[^${prefix}-${footnotes.size + 1}]`);
+        }
+        rendered.push(footnotes.get(id) ?? "");
+      } else {
+        const quote = `“${truncateQuote(toPlainText(passage.text), LINK_QUOTE_CHARS)}”`;
+        const href = passageUrl(passage, options);
+        rendered.push(href ? `[${escapeLinkText(quote)}](${href})` : `(${quote})`);
+      }
+    }
+
+    if (missing.length > 0) {
+      unmatched += missing.length;
+      rendered.push(`⚠ *citation ${missing.join(", ")} not found in source*`);
+    }
+    return options.mode === "footnotes" && missing.length === 0 ? rendered.join("") : rendered.join(" ");
+  });
+
+  if (footnotes.size === 0) {
+    return { content, unmatched };
+  }
+
+  const definitions = Array.from(footnotes.entries()).map(([id, label]) => {
+    const passage = byId.get(id) as Passage;
+    const quote = `“${truncateQuote(toPlainText(passage.text), FOOTNOTE_QUOTE_CHARS)}”`;
+    const href = passageUrl(passage, options);
+    return `${label}: ${quote}${href ? ` ([source](${href}))` : ""}`;
+  });
+
+  return { content: `${content.trimEnd()}\n\n${definitions.join("\n")}`, unmatched };
+}
+
+function splitLongParagraph(text: string): string[] {
+  if (text.length <= MAX_PASSAGE_CHARS) return [text];
+
+  const pieces: string[] = [];
+  let current = "";
+  for (const sentence of text.match(/[^.!?]+(?:[.!?]+|$)\s*/g) ?? [text]) {
+    if (current && current.length + sentence.length > MAX_PASSAGE_CHARS) {
+      pieces.push(current.trim());
+      current = "";
+    }
+    current += sentence;
+  }
+  if (current.trim()) pieces.push(current.trim());
+  return pieces;
+}
+
+function passageUrl(passage: Passage, options: CitationOptions): string | null {
+  if (!options.url) return null;
+  if (!options.textFragments) return options.url;
+
+  // Text fragments cannot span blocks, so use the longest paragraph of the passage
+  const block = passage.text
+    .split(/\n\s*\n/)
+    .map(toPlainText)
+    .reduce((longest, text) => (text.length > longest.length ? text : longest), "");
+  const words = block.split(/\s+/).filter(Boolean).slice(0, FRAGMENT_WORDS);
+  if (words.length === 0) return options.url;
+
+  // "-", "," and "&" have special meaning inside text fragments
+  const fragment = encodeURIComponent(words.join(" ")).replace(/-/g, "%2D");
+  return `${options.url.split("#")[0]}#:~:text=${fragment}`;
+}
+
+/**
+ * Strip Markdown syntax so quotes and text fragments match what the page shows
+ */
+function toPlainText(markdown: string): string {
+  return markdown
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, "")
+    .replace(/[*_`~]+/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function truncateQuote(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  const cut = text.slice(0, maxChars);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > maxChars / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+function escapeLinkText(text: string): string {
+  return text.replace(/[[\]]/g, "\\$&");
+}
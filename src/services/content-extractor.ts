@@ -1,7 +1,23 @@
-import { requestUrl, RequestUrlResponse } from "obsidian";
+import { requestUrl, RequestUrlResponse, loadPdfJs } from "obsidian";
 import TurndownService from "turndown";
 import { ExtractedContent } from "../types";
 
+/** Subset of a PDF.js text content item we rely on */
+interface PdfTextItem {
+  str?: string;
+  hasEOL?: boolean;
+}
+
+/** Caption track entry from YouTube's player response */
+interface YouTubeCaptionTrack {
+  baseUrl: string;
+  languageCode?: string;
+  kind?: string;
+}
+
+/** Group transcript lines into paragraphs of roughly this many seconds */
+const TRANSCRIPT_PARAGRAPH_SECONDS = 30;
+
 /**
  * Service for extracting content from URLs and converting to clean markdown.
  * Uses Turndown for HTML→Markdown conversion and basic readability heuristics.
@@ -34,8 +50,14 @@ export class ContentExtractor {
 
   /**
    * Extract content from a URL
+   * @param onPhase Called when downloading starts and when the download is turned into text
    */
-  async extractFromUrl(url: string): Promise<ExtractedContent> {
+  async extractFromUrl(
+    url: string,
+    onPhase?: (phase: "fetching" | "extracting") => void
+  ): Promise<ExtractedContent> {
+    onPhase?.("fetching");
+
     // Resolve URL shorteners (t.co, bit.ly, etc.) first
     let resolvedUrl = url;
     if (this.isUrlShortener(url)) {
@@ -51,12 +73,32 @@ export class ContentExtractor {
       return this.extractRawText(processedUrl);
     }
 
+    // Use the caption track for YouTube videos
+    const videoId = this.getYouTubeVideoId(processedUrl);
+    if (videoId) {
+      return this.extractYouTubeTranscript(videoId);
+    }
+
     // Use Jina Reader for JS-heavy sites (Twitter/X, etc.)
     if (this.needsJsRendering(processedUrl)) {
       return this.extractViaJina(url);
     }
 
+    // Fetch PDFs as binary and extract their text
+    if (this.isPdfUrl(processedUrl)) {
+      const pdfResponse = await this.fetchUrl(processedUrl);
+      onPhase?.("extracting");
+      return this.extractFromPdf(pdfResponse.arrayBuffer, url);
+    }
+
     const response = await this.fetchUrl(processedUrl);
+    onPhase?.("extracting");
+
+    // Content-type sniffing for PDFs served without a .pdf extension
+    if (this.isPdfResponse(response)) {
+      return this.extractFromPdf(response.arrayBuffer, url);
+    }
+
     const html = response.text;
 
     // Parse HTML using DOMParser (available in Obsidian's Electron environment)
@@ -80,6 +122,7 @@ export class ContentExtractor {
       content: cleanedContent,
       url,
       wordCount: this.countWords(cleanedContent),
+      sourceType: "web",
     };
   }
 
@@ -129,6 +172,7 @@ export class ContentExtractor {
       content: cleanedContent,
       url,
       wordCount: this.countWords(cleanedContent),
+      sourceType: "web",
     };
   }
 
@@ -140,7 +184,7 @@ export class ContentExtractor {
       url,
       headers: {
         "User-Agent": "Mozilla/5.0 (compatible; Obsidian Summarize Plugin)",
-        Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+        Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,application/pdf;q=0.9,*/*;q=0.8",
         "Accept-Language": "en-US,en;q=0.5",
       },
     });
@@ -347,6 +391,239 @@ export class ContentExtractor {
       content: content.trim(),
       url,
       wordCount: this.countWords(content),
+      sourceType: "web",
+    };
+  }
+
+  /**
+   * Check if URL points to a PDF (by extension or known PDF paths like arXiv)
+   */
+  private isPdfUrl(url: string): boolean {
+    try {
+      const parsed = new URL(url);
+      if (parsed.pathname.toLowerCase().endsWith(".pdf")) {
+        return true;
+      }
+      return parsed.hostname.endsWith("arxiv.org") && parsed.pathname.startsWith("/pdf/");
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Check if a response is a PDF based on its content-type header
+   */
+  private isPdfResponse(response: RequestUrlResponse): boolean {
+    const contentType = Object.entries(response.headers || {}).find(
+      ([key]) => key.toLowerCase() === "content-type"
+    )?.[1];
+    return Boolean(contentType && contentType.toLowerCase().includes("application/pdf"));
+  }
+
+  /**
+   * Extract text from PDF data using Obsidian's bundled PDF.js.
+   * Text is grouped per page under "## Page N" headings.
+   * @param data - Raw PDF bytes
+   * @param url - Source URL or vault path
+   * @param fallbackTitle - Title to use when the PDF has no title metadata
+   */
+  async extractFromPdf(
+    data: ArrayBuffer,
+    url: string,
+    fallbackTitle?: string
+  ): Promise<ExtractedContent> {
+    const pdfjs = await loadPdfJs();
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+
+    try {
+      const metadata = await pdf.getMetadata().catch(() => null);
+      const pages: string[] = [];
+
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const textContent = await page.getTextContent();
+        const text = this.joinPdfTextItems(textContent.items as PdfTextItem[]);
+        if (text) {
+          pages.push(`## Page ${pageNumber}\n\n${text}`);
+        }
+      }
+
+      const content = this.cleanMarkdown(pages.join("\n\n"));
+      if (!content) {
+        throw new Error("No extractable text found in PDF (scanned PDFs are not supported)");
+      }
+
+      const metadataTitle = metadata?.info?.Title;
+      const title =
+        typeof metadataTitle === "string" && metadataTitle.trim()
+          ? metadataTitle.trim()
+          : fallbackTitle || this.getFilenameFromUrl(url);
+
+      return {
+        title,
+        content,
+        url,
+        wordCount: this.countWords(content),
+        sourceType: "pdf",
+      };
+    } finally {
+      pdf.destroy();
+    }
+  }
+
+  /**
+   * Join PDF.js text items into plain text, repairing hyphenated line breaks
+   */
+  private joinPdfTextItems(items: PdfTextItem[]): string {
+    const text = items
+      .map((item) => (item.str ?? "") + (item.hasEOL ? "\n" : ""))
+      .join("");
+
+    return text
+      .replace(/(\w)-\n(\w)/g, "$1$2")
+      .replace(/[ \t]+/g, " ")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+  }
+
+  /**
+   * Get the last path segment of a URL or vault path
+   */
+  private getFilenameFromUrl(url: string): string {
+    let path = url;
+    try {
+      path = decodeURIComponent(new URL(url).pathname);
+    } catch {
+      // Not a URL (e.g. a vault path)
+    }
+    const parts = path.split("/").filter(Boolean);
+    return parts[parts.length - 1] || "Untitled";
+  }
+
+  /**
+   * Get the video ID from a YouTube URL (watch, youtu.be, shorts, embed, live)
+   */
+  private getYouTubeVideoId(url: string): string | null {
+    try {
+      const parsed = new URL(url);
+      const host = parsed.hostname.replace(/^(www\.|m\.|music\.)/, "");
+
+      if (host === "youtu.be") {
+        return parsed.pathname.split("/")[1] || null;
+      }
+
+      if (host === "youtube.com" || host === "youtube-nocookie.com") {
+        if (parsed.pathname === "/watch") {
+          return parsed.searchParams.get("v");
+        }
+        const match = parsed.pathname.match(/^\/(?:shorts|embed|live|v)\/([\w-]+)/);
+        return match ? match[1] : null;
+      }
+
+      return null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Extract a YouTube video's transcript from its caption track.
+   * Lines are grouped into paragraphs prefixed with [mm:ss] timestamps.
+   */
+  private async extractYouTubeTranscript(videoId: string): Promise<ExtractedContent> {
+    const watchUrl = `https://www.youtube.com/watch?v=${videoId}`;
+    const response = await this.fetchUrl(watchUrl);
+
+    const playerMatch = response.text.match(
+      /ytInitialPlayerResponse\s*=\s*(\{[\s\S]+?\})\s*;\s*(?:var\s|<\/script>)/
+    );
+    if (!playerMatch) {
+      throw new Error("Could not read YouTube video data");
+    }
+
+    const player = JSON.parse(playerMatch[1]);
+    const title: string = player.videoDetails?.title || "YouTube video";
+    const author: string | undefined = player.videoDetails?.author;
+
+    const tracks: YouTubeCaptionTrack[] =
+      player.captions?.playerCaptionsTracklistRenderer?.captionTracks ?? [];
+    if (tracks.length === 0) {
+      throw new Error("This video has no captions available");
+    }
+
+    // Prefer manually created captions over auto-generated (asr) ones
+    const track = tracks.find((t) => t.kind !== "asr") ?? tracks[0];
+
+    const captionResponse = await requestUrl({ url: `${track.baseUrl}&fmt=json3` });
+    const events: Array<{ tStartMs?: number; segs?: Array<{ utf8?: string }> }> =
+      captionResponse.json?.events ?? [];
+
+    const paragraphs: string[] = [];
+    let paragraphStart = -1;
+    let paragraphText: string[] = [];
+
+    for (const event of events) {
+      const text = (event.segs ?? [])
+        .map((seg) => seg.utf8 ?? "")
+        .join("")
+        .replace(/\s+/g, " ")
+        .trim();
+      if (!text) continue;
+
+      const start = Math.floor((event.tStartMs ?? 0) / 1000);
+      if (paragraphStart >= 0 && start - paragraphStart >= TRANSCRIPT_PARAGRAPH_SECONDS) {
+        paragraphs.push(`[${this.formatTimestamp(paragraphStart)}] ${paragraphText.join(" ")}`);
+        paragraphText = [];
+        paragraphStart = -1;
+      }
+      if (paragraphStart < 0) {
+        paragraphStart = start;
+      }
+      paragraphText.push(text);
+    }
+
+    if (paragraphText.length > 0) {
+      paragraphs.push(`[${this.formatTimestamp(paragraphStart)}] ${paragraphText.join(" ")}`);
+    }
+
+    if (paragraphs.length === 0) {
+      throw new Error("The video transcript is empty");
+    }
+
+    const header = author ? `Channel: ${author}\n\n` : "";
+    const content = header + paragraphs.join("\n\n");
+
+    return {
+      title,
+      content,
+      url: watchUrl,
+      wordCount: this.countWords(content),
+      sourceType: "youtube",
     };
   }
+
+  /**
+   * Format seconds as mm:ss (or h:mm:ss for long videos)
+   */
+  private formatTimestamp(totalSeconds: number): string {
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    const pad = (n: number) => String(n).padStart(2, "0");
+    return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+  }
+
+  /**
+   * Turn [mm:ss] timestamps in a summary into links to that point in the video
+   */
+  linkYouTubeTimestamps(summary: string, videoUrl: string): string {
+    return summary.replace(
+      /\[(?:(\d{1,2}):)?(\d{1,2}):(\d{2})\](?!\()/g,
+      (match, hours: string | undefined, minutes: string, seconds: string) => {
+        const offset = Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds);
+        const separator = videoUrl.includes("?") ? "&" : "?";
+        return `${match}(${videoUrl}${separator}t=${offset}s)`;
+      }
+    );
+  }
 }
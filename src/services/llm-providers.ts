@@ -0,0 +1,496 @@
+import { requestUrl } from "obsidian";
+import { LLMResponse, ProviderConfig, TokenUsage } from "../types";
+import { readEventStream } from "./sse-parser";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/**
+ * How to ask for JSON output: a strict JSON schema, plain JSON mode, or a forced tool call
+ */
+export interface StructuredOutputRequest {
+  mode: "json_schema" | "json_object" | "tool";
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface CompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  maxTokens: number;
+  /** Omitted = provider default */
+  temperature?: number;
+  /** Non-streaming only */
+  structuredOutput?: StructuredOutputRequest;
+}
+
+/**
+ * A chat completion backend (OpenRouter, any OpenAI-compatible server, Anthropic)
+ */
+export interface LLMProvider {
+  /** Provider ID used as the model prefix, e.g. "ollama" in "ollama:llama3.2" */
+  readonly id: string;
+  /** Display name used in error messages */
+  readonly name: string;
+  complete(request: CompletionRequest): Promise<LLMResponse>;
+  stream(
+    request: CompletionRequest,
+    onStream: (chunk: string) => void,
+    abortSignal?: AbortSignal
+  ): Promise<LLMResponse>;
+}
+
+/**
+ * A chunk of an OpenAI-compatible chat completion stream. Servers differ in
+ * what they send, so every field may be missing.
+ */
+interface OpenAIStreamChunk {
+  model?: string;
+  usage?: TokenUsage;
+  error?: { message?: string };
+  choices?: { delta?: { content?: string | null }; finish_reason?: string | null }[];
+}
+
+/**
+ * The Anthropic Messages stream events the plugin reads (ping, content_block_start etc. are ignored)
+ */
+type AnthropicStreamEvent =
+  | { type: "message_start"; message?: { model?: string; usage?: { input_tokens?: number } } }
+  | { type: "message_delta"; usage?: { output_tokens?: number }; delta?: { stop_reason?: string | null } }
+  | { type: "content_block_delta"; delta?: { type?: string; text?: string } }
+  | { type: "error"; error?: { message?: string } };
+
+export const OPENROUTER_PROVIDER_ID = "openrouter";
+export const OPENROUTER_BASE_URL = "https://openrouter.ai/api/v1";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+/**
+ * Provider for the OpenAI chat completions API shape.
+ * Covers OpenRouter, OpenAI, Ollama, llama.cpp, LM Studio, vLLM, etc.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id: string;
+  readonly name: string;
+  private baseUrl: string;
+  private apiKey: string;
+  private extraHeaders: Record<string, string>;
+
+  constructor(
+    id: string,
+    name: string,
+    baseUrl: string,
+    apiKey: string,
+    extraHeaders: Record<string, string> = {}
+  ) {
+    this.id = id;
+    this.name = name;
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.apiKey = apiKey;
+    this.extraHeaders = extraHeaders;
+  }
+
+  private get headers(): Record<string, string> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.extraHeaders,
+    };
+    // Local servers (Ollama, llama.cpp) usually run without a key
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  /**
+   * Make a completion request (non-streaming)
+   */
+  async complete(request: CompletionRequest): Promise<LLMResponse> {
+    const response = await requestUrl({
+      url: `${this.baseUrl}/chat/completions`,
+      method: "POST",
+      headers: this.headers,
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages,
+        max_tokens: request.maxTokens,
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        ...this.buildStructuredOutputParams(request.structuredOutput),
+      }),
+      throw: false, // Don't throw on non-2xx, we handle it
+    });
+
+    if (response.status === 429) {
+      throw new Error(`Rate limit exceeded (429) for model ${request.model}`);
+    }
+
+    if (response.status !== 200) {
+      const errorText = response.text || `HTTP ${response.status}`;
+      throw new Error(`${this.name} API error: ${errorText}`);
+    }
+
+    const data = response.json;
+
+    // Check for error in response body
+    if (data.error) {
+      throw new Error(data.error.message || JSON.stringify(data.error));
+    }
+
+    const choice = data.choices?.[0];
+    const message = choice?.message;
+    // Forced tool calls return their JSON in the call arguments
+    const content = message?.content || message?.tool_calls?.[0]?.function?.arguments || "";
+
+    return {
+      content,
+      model: data.model || request.model,
+      usage: data.usage,
+      finishReason: choice?.finish_reason ?? undefined,
+    };
+  }
+
+  /**
+   * Request body fields for JSON output
+   */
+  private buildStructuredOutputParams(
+    structured?: StructuredOutputRequest
+  ): Record<string, unknown> {
+    if (!structured) return {};
+
+    switch (structured.mode) {
+      case "json_schema":
+        return {
+          response_format: {
+            type: "json_schema",
+            json_schema: { name: structured.name, strict: true, schema: structured.schema },
+          },
+        };
+      case "json_object":
+        return { response_format: { type: "json_object" } };
+      case "tool":
+        return {
+          tools: [
+            {
+              type: "function",
+              function: {
+                name: structured.name,
+                description: "Record the structured summary",
+                parameters: structured.schema,
+              },
+            },
+          ],
+          tool_choice: { type: "function", function: { name: structured.name } },
+        };
+    }
+  }
+
+  /**
+   * Make a streaming completion request
+   */
+  async stream(
+    request: CompletionRequest,
+    onStream: (chunk: string) => void,
+    abortSignal?: AbortSignal
+  ): Promise<LLMResponse> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: this.headers,
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages,
+        max_tokens: request.maxTokens,
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        stream: true,
+        // Ask for token counts in the final chunk
+        stream_options: { include_usage: true },
+      }),
+      signal: abortSignal,
+    });
+
+    if (response.status === 429) {
+      throw new Error(`Rate limit exceeded (429) for model ${request.model}`);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`${this.name} API error: ${response.status} - ${errorText}`);
+    }
+
+    let fullContent = "";
+    let model = request.model;
+    let usage: LLMResponse["usage"];
+    let finishReason: string | undefined;
+
+    await readEventStream(response.body, (event) => {
+      if (event.data === "[DONE]") return;
+
+      const parsed = parseEventData<OpenAIStreamChunk>(event.data);
+      if (!parsed) return;
+
+      // Errors after the stream started arrive as an event with an error object
+      if (parsed.error) {
+        throw new Error(`${this.name} stream error: ${parsed.error.message || JSON.stringify(parsed.error)}`);
+      }
+
+      if (parsed.model) model = parsed.model;
+      // The usage block arrives in the final chunk (stream_options.include_usage)
+      if (parsed.usage) usage = parsed.usage;
+
+      const choice = parsed.choices?.[0];
+      // OpenRouter ends streams whose upstream provider failed with finish_reason "error"
+      if (choice?.finish_reason === "error") {
+        throw new Error(`${this.name} stream error: the provider stopped mid-response`);
+      }
+      if (choice?.finish_reason) finishReason = choice.finish_reason;
+
+      const content = choice?.delta?.content;
+      if (typeof content === "string" && content) {
+        fullContent += content;
+        onStream(content);
+      }
+    });
+
+    return {
+      content: fullContent,
+      model,
+      usage,
+      finishReason,
+    };
+  }
+}
+
+/**
+ * Provider for the native Anthropic Messages API
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly id: string;
+  readonly name: string;
+  private baseUrl: string;
+  private apiKey: string;
+
+  constructor(id: string, name: string, baseUrl: string, apiKey: string) {
+    this.id = id;
+    this.name = name;
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.apiKey = apiKey;
+  }
+
+  private get headers(): Record<string, string> {
+    return {
+      "Content-Type": "application/json",
+      "x-api-key": this.apiKey,
+      "anthropic-version": ANTHROPIC_VERSION,
+      // Required for requests made from a browser context (Obsidian's renderer)
+      "anthropic-dangerous-direct-browser-access": "true",
+    };
+  }
+
+  /**
+   * Build the Messages API body. System messages go in the top-level "system" field.
+   */
+  private buildBody(request: CompletionRequest, stream: boolean): string {
+    const system = request.messages
+      .filter((m) => m.role === "system")
+      .map((m) => m.content)
+      .join("\n\n");
+
+    // Anthropic has no JSON mode; structured output always uses a forced tool call
+    const structured = request.structuredOutput;
+    const toolParams = structured
+      ? {
+          tools: [
+            {
+              name: structured.name,
+              description: "Record the structured summary",
+              input_schema: structured.schema,
+            },
+          ],
+          tool_choice: { type: "tool", name: structured.name },
+        }
+      : {};
+
+    return JSON.stringify({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      ...(system ? { system } : {}),
+      messages: request.messages.filter((m) => m.role !== "system"),
+      ...toolParams,
+      ...(stream ? { stream: true } : {}),
+    });
+  }
+
+  /**
+   * Make a completion request (non-streaming)
+   */
+  async complete(request: CompletionRequest): Promise<LLMResponse> {
+    const response = await requestUrl({
+      url: `${this.baseUrl}/v1/messages`,
+      method: "POST",
+      headers: this.headers,
+      body: this.buildBody(request, false),
+      throw: false,
+    });
+
+    if (response.status === 429) {
+      throw new Error(`Rate limit exceeded (429) for model ${request.model}`);
+    }
+
+    if (response.status !== 200) {
+      const errorText = response.text || `HTTP ${response.status}`;
+      throw new Error(`${this.name} API error: ${errorText}`);
+    }
+
+    const data = response.json;
+
+    if (data.error) {
+      throw new Error(data.error.message || JSON.stringify(data.error));
+    }
+
+    const blocks: Array<{ type?: string; text?: string; input?: unknown }> = data.content ?? [];
+    const toolUse = blocks.find((block) => block.type === "tool_use");
+    const content = toolUse
+      ? JSON.stringify(toolUse.input ?? {})
+      : blocks
+          .filter((block) => block.type === "text")
+          .map((block) => block.text ?? "")
+          .join("");
+
+    return {
+      content,
+      model: data.model || request.model,
+      usage: data.usage
+        ? {
+            prompt_tokens: data.usage.input_tokens ?? 0,
+            completion_tokens: data.usage.output_tokens ?? 0,
+            total_tokens: (data.usage.input_tokens ?? 0) + (data.usage.output_tokens ?? 0),
+          }
+        : undefined,
+      finishReason: normalizeStopReason(data.stop_reason),
+    };
+  }
+
+  /**
+   * Make a streaming completion request
+   */
+  async stream(
+    request: CompletionRequest,
+    onStream: (chunk: string) => void,
+    abortSignal?: AbortSignal
+  ): Promise<LLMResponse> {
+    const response = await fetch(`${this.baseUrl}/v1/messages`, {
+      method: "POST",
+      headers: this.headers,
+      body: this.buildBody(request, true),
+      signal: abortSignal,
+    });
+
+    if (response.status === 429) {
+      throw new Error(`Rate limit exceeded (429) for model ${request.model}`);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`${this.name} API error: ${response.status} - ${errorText}`);
+    }
+
+    let fullContent = "";
+    let model = request.model;
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let finishReason: string | undefined;
+
+    await readEventStream(response.body, (event) => {
+      const parsed = parseEventData<AnthropicStreamEvent>(event.data);
+      if (!parsed) return;
+
+      if (parsed.type === "error") {
+        throw new Error(`${this.name} stream error: ${parsed.error?.message || JSON.stringify(parsed.error)}`);
+      }
+
+      // Input tokens arrive with message_start, output tokens and the stop reason with message_delta
+      if (parsed.type === "message_start") {
+        model = parsed.message?.model || model;
+        inputTokens = parsed.message?.usage?.input_tokens ?? inputTokens;
+      }
+      if (parsed.type === "message_delta") {
+        outputTokens = parsed.usage?.output_tokens ?? outputTokens;
+        finishReason = normalizeStopReason(parsed.delta?.stop_reason) ?? finishReason;
+      }
+
+      if (parsed.type === "content_block_delta" && parsed.delta?.type === "text_delta") {
+        const content = parsed.delta.text;
+        if (typeof content === "string" && content) {
+          fullContent += content;
+          onStream(content);
+        }
+      }
+    });
+
+    return {
+      content: fullContent,
+      model,
+      usage: {
+        prompt_tokens: inputTokens,
+        completion_tokens: outputTokens,
+        total_tokens: inputTokens + outputTokens,
+      },
+      finishReason,
+    };
+  }
+}
+
+/**
+ * Parse the JSON payload of a stream event. Malformed payloads and payloads that
+ * are not objects are logged and skipped. The fields of T are not validated, so
+ * T should declare them all optional.
+ */
+function parseEventData<T extends object>(data: string): T | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(data);
+  } catch {
+    value = undefined;
+  }
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    console.warn("[Summarize] Skipping malformed stream event:", data.slice(0, 200));
+    return null;
+  }
+  return value as T;
+}
+
+/**
+ * Map Anthropic stop reasons to the OpenAI finish_reason vocabulary
+ */
+function normalizeStopReason(reason?: string | null): string | undefined {
+  if (!reason) return undefined;
+  if (reason === "max_tokens") return "length";
+  if (reason === "end_turn" || reason === "stop_sequence") return "stop";
+  return reason;
+}
+
+/**
+ * Create the built-in OpenRouter provider
+ */
+export function createOpenRouterProvider(apiKey: string): LLMProvider {
+  return new OpenAICompatibleProvider(OPENROUTER_PROVIDER_ID, "OpenRouter", OPENROUTER_BASE_URL, apiKey, {
+    "HTTP-Referer": "https://obsidian.md",
+    "X-Title": "Obsidian Summarize Plugin",
+  });
+}
+
+/**
+ * Create a provider from a user-defined config
+ */
+export function createProvider(config: ProviderConfig): LLMProvider {
+  const name = config.name || config.id;
+  switch (config.type) {
+    case "anthropic":
+      return new AnthropicProvider(config.id, name, config.baseUrl, config.apiKey);
+    case "openai-compatible":
+    default:
+      return new OpenAICompatibleProvider(config.id, name, config.baseUrl, config.apiKey);
+  }
+}
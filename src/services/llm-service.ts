@@ -1,4 +1,4 @@
-import { requestUrl, Notice } from "obsidian";
+import { requestUrl, Notice, moment } from "obsidian";
 import {
   SummarizeSettings,
   LLMResponse,
@@ -6,19 +6,169 @@ import {
   LENGTH_WORD_COUNTS,
   OpenRouterModel,
   DEFAULT_PROMPT,
+  CHUNK_PROMPT,
+  REDUCE_PREAMBLE,
+  STRUCTURED_PROMPT,
+  STRUCTURED_REPAIR_PROMPT,
+  CHAT_SYSTEM_PROMPT,
+  SYNTHESIS_PROMPT,
+  CONTINUE_PROMPT,
+  TRUNCATION_MARKER,
+  FALLBACK_MODEL_NOTE,
+  FALLBACK_ERROR_LABELS,
+  FallbackErrorClass,
+  StructuredSummary,
+  SourceType,
+  UsageRecord,
+  PromptContext,
+  RequestPriority,
 } from "../types";
+import {
+  ChatMessage,
+  LLMProvider,
+  StructuredOutputRequest,
+  OPENROUTER_PROVIDER_ID,
+  createOpenRouterProvider,
+  createProvider,
+} from "./llm-providers";
+import { UsageLedger } from "./usage-ledger";
+import { RequestScheduler } from "./request-scheduler";
+import { renderPromptTemplate } from "./prompt-template";
 
-const OPENROUTER_API_URL = "https://openrouter.ai/api/v1/chat/completions";
 const OPENROUTER_MODELS_URL = "https://openrouter.ai/api/v1/models";
+const DEFAULT_MAX_TOKENS = 1024;
+
+// Output limits: allow several tokens per word so verbose languages and Markdown fit
+const TOKENS_PER_WORD = 3;
+const MIN_SUMMARY_MAX_TOKENS = 1024;
+const MAX_OUTPUT_CONTEXT_RATIO = 0.25;
+const MAX_CONTINUATIONS = 2;
+
+// Token budgeting for chunked summarization
+const CHARS_PER_TOKEN = 4;
+const DEFAULT_CONTEXT_LENGTH = 8192;
+const CONTEXT_SAFETY_RATIO = 0.9;
+const MIN_CHUNK_TOKENS = 512;
+const MIN_CHUNK_SUMMARY_WORDS = 150;
+/** Reduce passes over merged chunk summaries before the merge is truncated to fit */
+const MAX_REDUCE_DEPTH = 3;
+const REDUCE_TRUNCATION_NOTE = "\n\n[Partial summaries truncated to fit the model's context window]";
+
+// JSON schema for structured summaries (strict mode: all fields required)
+const STRUCTURED_SUMMARY_TOOL = "structured_summary";
+const STRUCTURED_SUMMARY_SCHEMA: Record<string, unknown> = {
+  type: "object",
+  additionalProperties: false,
+  required: ["tldr", "keyPoints", "entities", "actionItems", "openQuestions", "sourceTitle"],
+  properties: {
+    tldr: { type: "string", description: "One or two sentence summary" },
+    keyPoints: { type: "array", items: { type: "string" } },
+    entities: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["name", "type"],
+        properties: {
+          name: { type: "string" },
+          type: { type: "string", description: "person, organization, product, place, concept, ..." },
+        },
+      },
+    },
+    actionItems: { type: "array", items: { type: "string" } },
+    openQuestions: { type: "array", items: { type: "string" } },
+    sourceTitle: { type: "string" },
+  },
+};
+
+/**
+ * Per-call options threaded from summarize() down to the provider request
+ */
+interface CallOptions {
+  onStream?: (chunk: string) => void;
+  /** Discard everything streamed so far; the fallback chain is starting over with another model */
+  onStreamReset?: () => void;
+  abortSignal?: AbortSignal;
+  /** Request JSON output (non-streaming only) */
+  structured?: boolean;
+  /** Recorded in the usage ledger */
+  sourceType?: SourceType;
+  temperature?: number;
+  /** Output token limit, DEFAULT_MAX_TOKENS if not set */
+  maxTokens?: number;
+  /** Append TRUNCATION_MARKER and the fallback model note to the output (default true) */
+  annotate?: boolean;
+  /** Lane in the request queue, "interactive" if not set */
+  priority?: RequestPriority;
+  /** Called with the model's display name when a request leaves the queue and starts */
+  onRequestStart?: (model: string) => void;
+}
+
+/** Failures that say something about the model rather than the request */
+const COOLDOWN_ERROR_CLASSES: FallbackErrorClass[] = ["rate-limit", "server", "timeout"];
+
+/**
+ * Which fallback error class an error belongs to, or null if it should not trigger failover.
+ * Providers report errors as messages, so this matches on their wording.
+ */
+function classifyFallbackError(error: Error): FallbackErrorClass | null {
+  const message = error.message.toLowerCase();
+
+  if (/\b429\b|rate limit|too many requests/.test(message)) return "rate-limit";
+  if (/\b(408|524)\b|timeout|timed out|etimedout|econnreset|failed to fetch|net::err_/.test(message)) {
+    return "timeout";
+  }
+  if (/moderation|flagged|content filter|content_filter/.test(message)) return "refusal";
+  if (/\b(500|502|503|504|529)\b|bad gateway|service unavailable|internal server error|overloaded|stream error/.test(message)) {
+    return "server";
+  }
+  if (/^empty response/.test(message)) return "empty";
+  return null;
+}
+
+/**
+ * A plain prompt is sent as a single user message
+ */
+function toMessages(prompt: string | ChatMessage[]): ChatMessage[] {
+  return typeof prompt === "string" ? [{ role: "user", content: prompt }] : prompt;
+}
+
+/**
+ * Sum token usage across several completions
+ */
+function addUsage(
+  a: LLMResponse["usage"],
+  b: LLMResponse["usage"]
+): LLMResponse["usage"] {
+  if (!a) return b;
+  if (!b) return a;
+  return {
+    prompt_tokens: a.prompt_tokens + b.prompt_tokens,
+    completion_tokens: a.completion_tokens + b.completion_tokens,
+    total_tokens: a.total_tokens + b.total_tokens,
+  };
+}
 
 /**
- * Service for interacting with OpenRouter LLM API
+ * Service for interacting with LLM providers (OpenRouter by default)
  */
 export class LLMService {
   private settings: SummarizeSettings;
+  private usageLedger: UsageLedger | null;
+  private scheduler: RequestScheduler | null;
+  /** Month ("YYYY-MM") the over-budget warning was last shown for */
+  private budgetWarnedMonth: string | null = null;
+  /** When each model that failed in the fallback chain may be tried again (ms timestamps) */
+  private modelCooldowns = new Map<string, number>();
 
-  constructor(settings: SummarizeSettings) {
+  constructor(
+    settings: SummarizeSettings,
+    usageLedger: UsageLedger | null = null,
+    scheduler: RequestScheduler | null = null
+  ) {
     this.settings = settings;
+    this.usageLedger = usageLedger;
+    this.scheduler = scheduler;
   }
 
   updateSettings(settings: SummarizeSettings): void {
@@ -26,14 +176,46 @@ export class LLMService {
   }
 
   /**
-   * Check if the service is configured with an API key
+   * Check if the service is configured (OpenRouter API key or an enabled provider)
    */
   isConfigured(): boolean {
-    return Boolean(this.settings.openRouterApiKey);
+    return (
+      Boolean(this.settings.openRouterApiKey) ||
+      this.settings.providers.some((p) => p.enabled && p.baseUrl)
+    );
   }
 
   /**
-   * Generate a summary of the provided content
+   * Resolve a model reference to its provider.
+   * "provider:model" addresses a configured provider; anything else
+   * (including OpenRouter IDs like "vendor/model:free") goes to OpenRouter.
+   */
+  private resolveModel(modelRef: string): { provider: LLMProvider; model: string } {
+    const separator = modelRef.indexOf(":");
+    if (separator > 0) {
+      const prefix = modelRef.slice(0, separator);
+      const model = modelRef.slice(separator + 1);
+
+      if (prefix === OPENROUTER_PROVIDER_ID) {
+        return { provider: createOpenRouterProvider(this.settings.openRouterApiKey), model };
+      }
+
+      const config = this.settings.providers.find((p) => p.id === prefix);
+      if (config) {
+        if (!config.enabled) {
+          throw new Error(`Provider "${config.name || config.id}" is disabled`);
+        }
+        return { provider: createProvider(config), model };
+      }
+    }
+
+    return { provider: createOpenRouterProvider(this.settings.openRouterApiKey), model: modelRef };
+  }
+
+  /**
+   * Generate a summary of the provided content.
+   * Content that does not fit the model's context window is summarized
+   * chunk by chunk (map) and the partial summaries are merged (reduce).
    */
   async summarize(
     content: string,
@@ -41,79 +223,570 @@ export class LLMService {
       length?: SummaryLength;
       model?: string;
       prompt?: string;
+      instructions?: string;
       onStream?: (chunk: string) => void;
+      /** Called when streamed text must be discarded because the fallback chain switched models */
+      onStreamReset?: () => void;
+      onProgress?: (message: string) => void;
       abortSignal?: AbortSignal;
+      sourceType?: SourceType;
+      temperature?: number;
+      /** Values for template variables such as {{title}} and {{url}} */
+      context?: PromptContext;
+      priority?: RequestPriority;
+      onRequestStart?: (model: string) => void;
+      /** Internal: number of reduce passes this call is nested in */
+      reduceDepth?: number;
     } = {}
   ): Promise<LLMResponse> {
     const requestedModel = options.model || this.settings.defaultModel;
     const length = options.length || this.settings.defaultLength;
 
-    const prompt = this.buildSummarizationPrompt(content, length, options.prompt);
+    const template = options.prompt || this.settings.customPrompt || DEFAULT_PROMPT;
+    const maxTokens = this.getMaxTokens(requestedModel, LENGTH_WORD_COUNTS[length]);
+    const budget = this.getContentTokenBudget(requestedModel, template + (options.instructions ?? ""), maxTokens);
+    const reduceDepth = options.reduceDepth ?? 0;
+    // The last reduce pass must fit one request
+    const chunks =
+      reduceDepth >= MAX_REDUCE_DEPTH
+        ? [this.truncateToBudget(content, budget)]
+        : this.splitIntoChunks(content, budget);
+
+    if (chunks.length > 1) {
+      const merged = await this.summarizeChunks(chunks, requestedModel, length, options);
+      // Recurse so that oversized merges are chunked again; only this reduce pass streams
+      const reduced = await this.summarize(merged.content, {
+        ...options,
+        model: requestedModel,
+        length,
+        reduceDepth: this.nextReduceDepth(reduceDepth, merged.content, content),
+      });
+      return { ...reduced, usage: addUsage(merged.usage, reduced.usage) };
+    }
+
+    const prompt = this.buildSummarizationPrompt(content, length, options);
+    return this.runCompletion(requestedModel, prompt, {
+      onStream: options.onStream,
+      onStreamReset: options.onStreamReset,
+      abortSignal: options.abortSignal,
+      sourceType: options.sourceType,
+      temperature: options.temperature,
+      maxTokens,
+      priority: options.priority,
+      onRequestStart: options.onRequestStart,
+    });
+  }
+
+  /**
+   * Generate a structured summary (TL;DR, key points, entities, action items, open questions).
+   * Uses JSON schema output, JSON mode or a forced tool call when the model supports it,
+   * and falls back to parsing (and if needed repairing) free-form output.
+   */
+  async summarizeStructured(
+    content: string,
+    options: {
+      length?: SummaryLength;
+      model?: string;
+      title?: string;
+      onProgress?: (message: string) => void;
+      abortSignal?: AbortSignal;
+      sourceType?: SourceType;
+      priority?: RequestPriority;
+      /** Internal: number of reduce passes this call is nested in */
+      reduceDepth?: number;
+    } = {}
+  ): Promise<LLMResponse & { structured: StructuredSummary }> {
+    const requestedModel = options.model || this.settings.defaultModel;
+    const length = options.length || this.settings.defaultLength;
+    const maxTokens = this.getMaxTokens(requestedModel, LENGTH_WORD_COUNTS[length]);
+
+    const budget = this.getContentTokenBudget(requestedModel, STRUCTURED_PROMPT, maxTokens);
+    const reduceDepth = options.reduceDepth ?? 0;
+    // The last reduce pass must fit one request
+    const chunks =
+      reduceDepth >= MAX_REDUCE_DEPTH
+        ? [this.truncateToBudget(content, budget)]
+        : this.splitIntoChunks(content, budget);
+
+    if (chunks.length > 1) {
+      const merged = await this.summarizeChunks(chunks, requestedModel, length, options);
+      const reduced = await this.summarizeStructured(merged.content, {
+        ...options,
+        model: requestedModel,
+        length,
+        reduceDepth: this.nextReduceDepth(reduceDepth, merged.content, content),
+      });
+      return { ...reduced, usage: addUsage(merged.usage, reduced.usage) };
+    }
+
+    const prompt = STRUCTURED_PROMPT
+      .replace(/\{\{wordCount\}\}/g, String(LENGTH_WORD_COUNTS[length]))
+      .replace(/\{\{title\}\}/g, () => options.title || "Untitled")
+      .replace(/\{\{content\}\}/g, () => content);
+
+    const response = await this.runCompletion(requestedModel, prompt, {
+      abortSignal: options.abortSignal,
+      structured: true,
+      sourceType: options.sourceType,
+      maxTokens,
+      priority: options.priority,
+    });
+    // Repair with the chain model that answered (auto-free resolves to a concrete free model)
+    const repairModel = response.resolvedModel ?? requestedModel;
+    const structured = await this.parseStructuredSummary(response.content, repairModel, options);
+
+    return { ...response, structured };
+  }
+
+  /**
+   * Answer a question about a source as part of a multi-turn conversation.
+   * The source goes in the system message, trimmed to what fits the model's
+   * context next to the conversation so far.
+   */
+  async chatAboutSource(
+    source: { title: string; url?: string; content: string; sourceType?: SourceType },
+    conversation: ChatMessage[],
+    options: {
+      model?: string;
+      onStream?: (chunk: string) => void;
+      onStreamReset?: () => void;
+      abortSignal?: AbortSignal;
+    } = {}
+  ): Promise<LLMResponse> {
+    const model = options.model || this.settings.defaultModel;
+    const template = CHAT_SYSTEM_PROMPT
+      .replace(/\{\{title\}\}/g, () => source.title || "Untitled")
+      .replace(/\{\{url\}\}/g, () => source.url || "none");
+
+    const history = conversation.map((m) => m.content).join("\n\n");
+    const maxChars = this.getContentTokenBudget(model, template + history) * CHARS_PER_TOKEN;
+    const content =
+      source.content.length > maxChars
+        ? `${source.content.slice(0, maxChars)}\n\n[Source truncated to fit the model's context window]`
+        : source.content;
+
+    const messages: ChatMessage[] = [
+      { role: "system", content: template.replace(/\{\{content\}\}/g, () => content) },
+      ...conversation,
+    ];
+
+    return this.runCompletion(model, messages, {
+      onStream: options.onStream,
+      onStreamReset: options.onStreamReset,
+      abortSignal: options.abortSignal,
+      sourceType: source.sourceType,
+    });
+  }
+
+  /**
+   * Compare independently summarized sources in one comparative synthesis
+   * that cites them by their 1-based position in the list
+   */
+  async synthesize(
+    sources: { title: string; url?: string; summary: string }[],
+    options: {
+      length?: SummaryLength;
+      model?: string;
+      abortSignal?: AbortSignal;
+      onRequestStart?: (model: string) => void;
+    } = {}
+  ): Promise<LLMResponse> {
+    const model = options.model || this.settings.defaultModel;
+    const length = options.length || this.settings.defaultLength;
+
+    const sourceBlocks = sources.map((source, i) => {
+      const heading = source.url ? `${source.title} (${source.url})` : source.title;
+      return `[${i + 1}] ${heading}\n${source.summary.trim()}`;
+    });
+
+    const wordCount = LENGTH_WORD_COUNTS[length] * 2;
+    const prompt = SYNTHESIS_PROMPT
+      .replace(/\{\{count\}\}/g, String(sources.length))
+      .replace(/\{\{wordCount\}\}/g, String(wordCount))
+      .replace(/\{\{sources\}\}/g, () => sourceBlocks.join("\n\n"));
+
+    return this.runCompletion(model, prompt, {
+      abortSignal: options.abortSignal,
+      maxTokens: this.getMaxTokens(model, wordCount),
+      onRequestStart: options.onRequestStart,
+    });
+  }
+
+  /**
+   * Summarize each chunk independently (map pass) and return the merged
+   * partial summaries, ready for the reduce pass, with the tokens used.
+   */
+  private async summarizeChunks(
+    chunks: string[],
+    model: string,
+    length: SummaryLength,
+    options: {
+      instructions?: string;
+      onProgress?: (message: string) => void;
+      abortSignal?: AbortSignal;
+      sourceType?: SourceType;
+      temperature?: number;
+      priority?: RequestPriority;
+      onRequestStart?: (model: string) => void;
+    }
+  ): Promise<{ content: string; usage?: LLMResponse["usage"] }> {
+    const chunkWordCount = Math.max(LENGTH_WORD_COUNTS[length], MIN_CHUNK_SUMMARY_WORDS);
+    const maxTokens = this.getMaxTokens(model, chunkWordCount);
+    const partials: string[] = [];
+    let usage: LLMResponse["usage"];
+
+    for (let i = 0; i < chunks.length; i++) {
+      if (options.abortSignal?.aborted) {
+        throw new DOMException("Aborted", "AbortError");
+      }
+
+      options.onProgress?.(`Summarizing chunk ${i + 1}/${chunks.length}...`);
+      console.log(`[Summarize] Summarizing chunk ${i + 1}/${chunks.length}`);
+
+      const chunkPrompt = this.appendInstructions(
+        CHUNK_PROMPT
+          .replace(/\{\{part\}\}/g, String(i + 1))
+          .replace(/\{\{parts\}\}/g, String(chunks.length))
+          .replace(/\{\{wordCount\}\}/g, String(chunkWordCount))
+          .replace(/\{\{content\}\}/g, () => chunks[i]),
+        options.instructions
+      );
+
+      const response = await this.runCompletion(model, chunkPrompt, {
+        abortSignal: options.abortSignal,
+        sourceType: options.sourceType,
+        temperature: options.temperature,
+        maxTokens,
+        // The reduce pass only sees the text, notes would end up in the summary
+        annotate: false,
+        priority: options.priority,
+        onRequestStart: options.onRequestStart,
+      });
+      partials.push(response.content.trim());
+      usage = addUsage(usage, response.usage);
+    }
+
+    options.onProgress?.(`Merging ${partials.length} partial summaries...`);
+
+    const content = [
+      REDUCE_PREAMBLE,
+      ...partials.map((partial, i) => `## Part ${i + 1}\n\n${partial}`),
+    ].join("\n\n");
+
+    return { content, usage };
+  }
+
+  /**
+   * Run a completion. Output that stops at the token limit is continued with
+   * follow-up requests, streamed into the same insertion; if it is still cut
+   * off, TRUNCATION_MARKER is appended.
+   */
+  private async runCompletion(
+    model: string,
+    prompt: string | ChatMessage[],
+    options: CallOptions = {}
+  ): Promise<LLMResponse> {
+    let response = await this.runSingleCompletion(model, prompt, options);
+    // Continuing JSON output would not produce one valid object
+    if (options.structured) return response;
+
+    // Continue with the chain model that answered (auto-free resolves to a concrete free model)
+    const continueModel = response.resolvedModel ?? model;
+    const { fallbackFrom, resolvedModel } = response;
+    let content = response.content;
+    let usage = response.usage;
+
+    for (let i = 0; i < MAX_CONTINUATIONS && response.finishReason === "length" && content.trim(); i++) {
+      console.log(`[Summarize] Output reached the token limit, continuing (${i + 1}/${MAX_CONTINUATIONS})`);
+      const messages: ChatMessage[] = [
+        ...toMessages(prompt),
+        { role: "assistant", content },
+        { role: "user", content: CONTINUE_PROMPT },
+      ];
+      response = await this.runSingleCompletion(continueModel, messages, options);
+      content += response.content;
+      usage = addUsage(usage, response.usage);
+    }
+
+    const notes: string[] = [];
+    if (response.finishReason === "length") {
+      console.warn("[Summarize] Output is still truncated after continuing");
+      notes.push(TRUNCATION_MARKER);
+    }
+    if (fallbackFrom?.length && this.settings.fallbackShowModel) {
+      notes.push(FALLBACK_MODEL_NOTE.replace(/\{\{model\}\}/g, () => this.getModelName(continueModel)));
+    }
+    if (options.annotate !== false) {
+      for (const note of notes) {
+        options.onStream?.(note);
+        content += note;
+      }
+    }
 
+    return { ...response, content, usage, fallbackFrom, resolvedModel };
+  }
+
+  /**
+   * Run a single request, dispatching to auto-free fallback or streaming as needed
+   */
+  private async runSingleCompletion(
+    model: string,
+    prompt: string | ChatMessage[],
+    options: CallOptions = {}
+  ): Promise<LLMResponse> {
     // Handle auto-free model selection with fallback
-    if (requestedModel === "auto-free") {
-      return this.completionWithAutoFree(prompt, options.onStream, options.abortSignal);
+    if (model === "auto-free") {
+      return this.completionWithAutoFree(prompt, options);
     }
 
     // Use streaming if callback provided, otherwise regular request
     if (options.onStream) {
-      return this.streamCompletion(requestedModel, prompt, options.onStream, options.abortSignal);
+      return this.streamCompletion(model, prompt, options.onStream, options);
     } else {
-      return this.completion(requestedModel, prompt);
+      return this.completion(model, prompt, options);
     }
   }
 
   /**
-   * Build the summarization prompt using template with placeholders.
-   * Placeholders: {{content}}, {{wordCount}}
+   * Build the summarization prompt by rendering the prompt template
+   * with the content, target word count and source context.
    */
   private buildSummarizationPrompt(
     content: string,
     length: SummaryLength,
-    customPrompt?: string
+    options: { prompt?: string; instructions?: string; sourceType?: SourceType; context?: PromptContext }
   ): string {
-    const wordCount = LENGTH_WORD_COUNTS[length];
-
     // Priority: parameter prompt > settings customPrompt > DEFAULT_PROMPT
-    const template = customPrompt || this.settings.customPrompt || DEFAULT_PROMPT;
+    const template = options.prompt || this.settings.customPrompt || DEFAULT_PROMPT;
+
+    const prompt = renderPromptTemplate(template, {
+      sourceType: options.sourceType,
+      ...options.context,
+      content,
+      wordCount: LENGTH_WORD_COUNTS[length],
+    });
+
+    return this.appendInstructions(prompt, options.instructions);
+  }
+
+  /**
+   * Append source-specific instructions (e.g. transcript timestamps) to a prompt
+   */
+  private appendInstructions(prompt: string, instructions?: string): string {
+    return instructions ? `${prompt}\n\nAdditional instructions:\n${instructions}` : prompt;
+  }
+
+  // ============================================================================
+  // Chunking
+  // ============================================================================
 
-    return template
-      .replace(/\{\{content\}\}/g, content)
-      .replace(/\{\{wordCount\}\}/g, String(wordCount));
+  /**
+   * Depth of the next reduce pass. Merged summaries that are not shorter than
+   * their input would be chunked and merged forever, so they go straight to the
+   * last pass, which truncates instead of chunking.
+   */
+  private nextReduceDepth(depth: number, merged: string, input: string): number {
+    if (merged.length >= input.length) {
+      console.warn("[Summarize] Merged chunk summaries did not shrink, truncating them to fit");
+      return MAX_REDUCE_DEPTH;
+    }
+    return depth + 1;
+  }
+
+  /**
+   * Cut content that does not fit the token budget of one request
+   */
+  private truncateToBudget(content: string, budget: number): string {
+    if (this.estimateTokens(content) <= budget) return content;
+    console.warn("[Summarize] Content still too long after merging, truncating to fit");
+    const maxChars = Math.max(0, budget * CHARS_PER_TOKEN - REDUCE_TRUNCATION_NOTE.length);
+    return content.slice(0, maxChars) + REDUCE_TRUNCATION_NOTE;
+  }
+
+  /**
+   * Rough token estimate (~4 characters per token)
+   */
+  private estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
   }
 
   /**
-   * Try completion with auto-free model fallback on rate limits
+   * Get the context length of a model from the cache.
+   * For auto-free, uses the smallest context among the ranked models.
+   */
+  private getContextLength(modelId: string): number {
+    return this.getModelLimit(modelId, "context_length") ?? DEFAULT_CONTEXT_LENGTH;
+  }
+
+  /**
+   * Smallest cached value of a model limit, over the ranked models for auto-free.
+   * Undefined if no model reports it.
+   */
+  private getModelLimit(modelId: string, field: "context_length" | "max_completion_tokens"): number | undefined {
+    const models = this.settings.openRouter.models;
+    const candidates = modelId === "auto-free" ? this.settings.openRouter.freeModelRank : [modelId];
+
+    const limits = candidates
+      .map((id) => id.replace(`${OPENROUTER_PROVIDER_ID}:`, ""))
+      .map((id) => models.find((m) => m.id === id)?.[field])
+      .filter((limit): limit is number => typeof limit === "number" && limit > 0);
+
+    return limits.length > 0 ? Math.min(...limits) : undefined;
+  }
+
+  /**
+   * Output token limit for a summary of about wordCount words, within the
+   * model's output limit and a share of its context window
+   */
+  private getMaxTokens(modelId: string, wordCount: number): number {
+    const wanted = Math.max(wordCount * TOKENS_PER_WORD, MIN_SUMMARY_MAX_TOKENS);
+    const contextShare = Math.floor(this.getContextLength(modelId) * MAX_OUTPUT_CONTEXT_RATIO);
+    const modelLimit = this.getModelLimit(modelId, "max_completion_tokens") ?? Infinity;
+    return Math.min(wanted, contextShare, modelLimit);
+  }
+
+  /**
+   * Number of content tokens that fit in a single request for the given model and
+   * template, leaving room for maxTokens of output
+   */
+  private getContentTokenBudget(modelId: string, template: string, maxTokens = DEFAULT_MAX_TOKENS): number {
+    const contextLength = this.getContextLength(modelId);
+    const overhead = this.estimateTokens(template.replace(/\{\{content\}\}/g, ""));
+    const budget = Math.floor(contextLength * CONTEXT_SAFETY_RATIO) - maxTokens - overhead;
+    return Math.max(budget, MIN_CHUNK_TOKENS);
+  }
+
+  /**
+   * Split content into chunks that fit the token budget.
+   * Prefers heading boundaries, then paragraphs, then sentences.
+   */
+  private splitIntoChunks(content: string, maxTokens: number): string[] {
+    const maxChars = maxTokens * CHARS_PER_TOKEN;
+    if (content.length <= maxChars) {
+      return [content];
+    }
+
+    const chunks: string[] = [];
+    let current = "";
+
+    for (const block of this.splitBlocks(content, maxChars)) {
+      const isHeading = /^#{1,6}\s/.test(block);
+      const wouldOverflow = current.length + block.length + 2 > maxChars;
+      // Start a new chunk at a heading once the current one is reasonably full
+      const headingBreak = isHeading && current.length > maxChars / 2;
+
+      if (current && (wouldOverflow || headingBreak)) {
+        chunks.push(current);
+        current = "";
+      }
+      current = current ? `${current}\n\n${block}` : block;
+    }
+
+    if (current) {
+      chunks.push(current);
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Split content into paragraph blocks no larger than maxChars
+   */
+  private splitBlocks(content: string, maxChars: number): string[] {
+    const blocks: string[] = [];
+
+    for (const paragraph of content.split(/\n{2,}/)) {
+      const trimmed = paragraph.trim();
+      if (!trimmed) continue;
+
+      if (trimmed.length <= maxChars) {
+        blocks.push(trimmed);
+        continue;
+      }
+
+      // Oversized paragraph: pack sentences, hard-split anything still too long
+      let current = "";
+      for (const sentence of trimmed.split(/(?<=[.!?])\s+/)) {
+        if (current && current.length + sentence.length + 1 > maxChars) {
+          blocks.push(current);
+          current = "";
+        }
+        if (sentence.length > maxChars) {
+          for (let i = 0; i < sentence.length; i += maxChars) {
+            blocks.push(sentence.slice(i, i + maxChars));
+          }
+          continue;
+        }
+        current = current ? `${current} ${sentence}` : sentence;
+      }
+      if (current) {
+        blocks.push(current);
+      }
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Run the auto-free fallback chain: the ranked free models, then the paid
+   * fallback model if one is set. Errors of the configured classes move on to
+   * the next model; models that failed recently are skipped while cooling down.
    */
   private async completionWithAutoFree(
-    prompt: string,
-    onStream?: (chunk: string) => void,
-    abortSignal?: AbortSignal
+    prompt: string | ChatMessage[],
+    options: CallOptions = {}
   ): Promise<LLMResponse> {
-    const freeModels = this.settings.openRouter.freeModelRank;
+    const { onStream, onStreamReset, abortSignal } = options;
+    const chain = [...this.settings.openRouter.freeModelRank];
+    const paidModel = this.settings.fallbackPaidModel.trim();
+    if (paidModel && !chain.includes(paidModel)) chain.push(paidModel);
 
-    if (freeModels.length === 0) {
+    if (chain.length === 0) {
       throw new Error(
         "No free models ranked. Add models in Settings > Free Rank tab."
       );
     }
 
+    // A cooldown is only a hint: if every model is cooling down, try them all anyway
+    const available = chain.filter((modelId) => !this.isCoolingDown(modelId));
+    if (available.length < chain.length) {
+      console.log(`[Summarize] Skipping ${chain.length - available.length} models that are cooling down`);
+    }
+    const candidates = available.length > 0 ? available : chain;
+
+    const failed: string[] = [];
     let lastError: Error | null = null;
 
-    for (const modelId of freeModels) {
+    for (const modelId of candidates) {
       // Check if aborted before trying next model
       if (abortSignal?.aborted) {
         throw new DOMException("Aborted", "AbortError");
       }
 
+      let streamed = false;
       try {
         console.log(`[Summarize] Trying model: ${modelId}`);
 
-        if (onStream) {
-          return await this.streamCompletion(modelId, prompt, onStream, abortSignal);
-        } else {
-          return await this.completion(modelId, prompt);
+        const response = onStream
+          ? await this.streamCompletion(modelId, prompt, (chunk) => {
+              streamed = true;
+              onStream(chunk);
+            }, options)
+          : await this.completion(modelId, prompt, options);
+
+        const blocked = response.finishReason === "content_filter";
+        if (
+          !options.structured &&
+          !response.content.trim() &&
+          this.settings.fallbackErrors.includes(blocked ? "refusal" : "empty")
+        ) {
+          throw new Error(
+            blocked ? `Response was blocked by the content filter of ${modelId}` : `Empty response from ${modelId}`
+          );
         }
+
+        this.modelCooldowns.delete(modelId);
+        return { ...response, resolvedModel: modelId, ...(failed.length > 0 ? { fallbackFrom: failed } : {}) };
       } catch (error) {
         // Re-throw abort errors immediately
         if (error instanceof DOMException && error.name === "AbortError") {
@@ -121,29 +794,52 @@ export class LLMService {
         }
         lastError = error instanceof Error ? error : new Error(String(error));
 
-        // Check if it's a rate limit error (429)
-        const isRateLimit =
-          lastError.message.includes("429") ||
-          lastError.message.toLowerCase().includes("rate limit") ||
-          lastError.message.toLowerCase().includes("too many requests");
+        const errorClass = classifyFallbackError(lastError);
+        if (!errorClass || !this.settings.fallbackErrors.includes(errorClass)) {
+          throw lastError;
+        }
+        // The next model starts from scratch, so partial output has to be taken back first
+        if (streamed) {
+          if (!onStreamReset) throw lastError;
+          console.log(`[Summarize] Discarding output streamed by ${modelId}`);
+          onStreamReset();
+        }
 
-        if (isRateLimit) {
-          console.log(`[Summarize] Rate limited on ${modelId}, trying next...`);
-          new Notice(`Rate limited on ${this.getModelName(modelId)}, trying next...`);
-          continue;
+        if (COOLDOWN_ERROR_CLASSES.includes(errorClass)) {
+          this.startCooldown(modelId);
         }
+        failed.push(modelId);
 
-        // For other errors, throw immediately
-        throw lastError;
+        const label = FALLBACK_ERROR_LABELS[errorClass];
+        console.log(`[Summarize] ${label} on ${modelId}, trying next...`, lastError.message);
+        new Notice(`${label} on ${this.getModelName(modelId)}, trying next...`);
       }
     }
 
     // All models failed
     throw new Error(
-      `All ranked free models are rate limited. Last error: ${lastError?.message}`
+      `All ${failed.length} models in the fallback chain failed. Last error: ${lastError?.message}`
     );
   }
 
+  /**
+   * Whether a model failed recently enough to be skipped by the fallback chain
+   */
+  private isCoolingDown(modelId: string): boolean {
+    const until = this.modelCooldowns.get(modelId);
+    if (until === undefined) return false;
+    if (Date.now() < until) return true;
+    this.modelCooldowns.delete(modelId);
+    return false;
+  }
+
+  private startCooldown(modelId: string): void {
+    const minutes = this.settings.fallbackCooldownMinutes;
+    if (minutes > 0) {
+      this.modelCooldowns.set(modelId, Date.now() + minutes * 60 * 1000);
+    }
+  }
+
   /**
    * Get model display name from ID
    */
@@ -155,130 +851,294 @@ export class LLMService {
   /**
    * Make a completion request (non-streaming)
    */
-  private async completion(model: string, prompt: string): Promise<LLMResponse> {
-    const response = await requestUrl({
-      url: OPENROUTER_API_URL,
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${this.settings.openRouterApiKey}`,
-        "Content-Type": "application/json",
-        "HTTP-Referer": "https://obsidian.md",
-        "X-Title": "Obsidian Summarize Plugin",
-      },
-      body: JSON.stringify({
+  private async completion(
+    model: string,
+    prompt: string | ChatMessage[],
+    options: CallOptions = {}
+  ): Promise<LLMResponse> {
+    await this.checkBudget(model);
+    const resolved = this.resolveModel(model);
+    const response = await this.schedule(
+      model,
+      () =>
+        resolved.provider.complete({
+          model: resolved.model,
+          messages: toMessages(prompt),
+          maxTokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+          temperature: options.temperature,
+          structuredOutput: options.structured ? this.getStructuredOutput(model) : undefined,
+        }),
+      options
+    );
+    await this.recordUsage(resolved.provider, response, options.sourceType);
+    return response;
+  }
+
+  /**
+   * Run a provider request to a model through the request queue, if there is one
+   */
+  private schedule<T>(model: string, request: () => Promise<T>, options: CallOptions): Promise<T> {
+    const start = () => {
+      options.onRequestStart?.(this.getModelName(model));
+      return request();
+    };
+    return this.scheduler ? this.scheduler.run(start, options.priority, options.abortSignal) : start();
+  }
+
+  // ============================================================================
+  // Usage & Budget
+  // ============================================================================
+
+  /**
+   * Add a call to the usage ledger. Models of other providers are recorded
+   * with their provider prefix so they stay distinguishable.
+   */
+  private async recordUsage(
+    provider: LLMProvider,
+    response: LLMResponse,
+    sourceType: UsageRecord["sourceType"] = "text"
+  ): Promise<void> {
+    if (!this.usageLedger) return;
+
+    const model =
+      provider.id === OPENROUTER_PROVIDER_ID ? response.model : `${provider.id}:${response.model}`;
+    try {
+      await this.usageLedger.record({
         model,
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: 1024,
-      }),
-      throw: false, // Don't throw on non-2xx, we handle it
-    });
+        promptTokens: response.usage?.prompt_tokens ?? 0,
+        completionTokens: response.usage?.completion_tokens ?? 0,
+        cost: this.estimateCost(model, response.usage),
+        sourceType,
+      });
+    } catch (error) {
+      console.warn("[Summarize] Failed to record usage:", error);
+    }
+  }
+
+  /**
+   * Warn or block before a paid call once this month's spend reaches the budget
+   */
+  private async checkBudget(modelRef: string): Promise<void> {
+    const budget = this.settings.monthlyBudget;
+    if (!this.usageLedger || budget <= 0 || !this.isPaidModel(modelRef)) return;
 
-    if (response.status === 429) {
-      throw new Error(`Rate limit exceeded (429) for model ${model}`);
+    const spent = await this.usageLedger.getMonthCost();
+    if (spent < budget) return;
+
+    const message = `Monthly budget of $${budget.toFixed(2)} reached ($${spent.toFixed(2)} spent this month)`;
+    if (this.settings.budgetAction === "block") {
+      throw new Error(`${message}. Use a free model or raise the budget in Settings → Usage.`);
     }
 
-    if (response.status !== 200) {
-      const errorText = response.text || `HTTP ${response.status}`;
-      throw new Error(`OpenRouter API error: ${errorText}`);
+    const month = moment().format("YYYY-MM");
+    if (this.budgetWarnedMonth !== month) {
+      this.budgetWarnedMonth = month;
+      new Notice(message, 8000);
     }
+  }
 
-    const data = response.json;
+  /**
+   * Whether a call to this model costs money. Only OpenRouter pricing is known;
+   * models of other providers are not budgeted.
+   */
+  private isPaidModel(modelRef: string): boolean {
+    const { provider, model } = this.resolveModel(modelRef);
+    if (provider.id !== OPENROUTER_PROVIDER_ID) return false;
 
-    // Check for error in response body
-    if (data.error) {
-      throw new Error(data.error.message || JSON.stringify(data.error));
-    }
+    const info = this.settings.openRouter.models.find((m) => m.id === model);
+    return info ? !this.isModelFree(info) : !model.endsWith(":free");
+  }
 
-    const content = data.choices?.[0]?.message?.content || "";
+  // ============================================================================
+  // Structured Output
+  // ============================================================================
 
-    return {
-      content,
-      model: data.model || model,
-      usage: data.usage,
-    };
+  /**
+   * Pick the best JSON output mechanism the model supports, if any.
+   * OpenRouter models advertise it in supported_parameters; Anthropic always supports tools.
+   */
+  private getStructuredOutput(modelRef: string): StructuredOutputRequest | undefined {
+    const { provider, model } = this.resolveModel(modelRef);
+
+    if (provider.id !== OPENROUTER_PROVIDER_ID) {
+      const config = this.settings.providers.find((p) => p.id === provider.id);
+      return config?.type === "anthropic"
+        ? { mode: "tool", name: STRUCTURED_SUMMARY_TOOL, schema: STRUCTURED_SUMMARY_SCHEMA }
+        : undefined;
+    }
+
+    const params = this.settings.openRouter.models.find((m) => m.id === model)?.supported_parameters ?? [];
+    if (params.includes("structured_outputs")) {
+      return { mode: "json_schema", name: STRUCTURED_SUMMARY_TOOL, schema: STRUCTURED_SUMMARY_SCHEMA };
+    }
+    if (params.includes("response_format")) {
+      return { mode: "json_object", name: STRUCTURED_SUMMARY_TOOL, schema: STRUCTURED_SUMMARY_SCHEMA };
+    }
+    if (params.includes("tools") && params.includes("tool_choice")) {
+      return { mode: "tool", name: STRUCTURED_SUMMARY_TOOL, schema: STRUCTURED_SUMMARY_SCHEMA };
+    }
+    return undefined;
   }
 
   /**
-   * Make a streaming completion request
+   * Parse model output into a StructuredSummary.
+   * Tolerates code fences, surrounding prose and trailing commas; asks the model
+   * to repair the JSON once if it still doesn't parse.
    */
-  private async streamCompletion(
+  private async parseStructuredSummary(
+    raw: string,
     model: string,
-    prompt: string,
-    onStream: (chunk: string) => void,
-    abortSignal?: AbortSignal
-  ): Promise<LLMResponse> {
-    const response = await fetch(OPENROUTER_API_URL, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${this.settings.openRouterApiKey}`,
-        "Content-Type": "application/json",
-        "HTTP-Referer": "https://obsidian.md",
-        "X-Title": "Obsidian Summarize Plugin",
-      },
-      body: JSON.stringify({
-        model,
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: 1024,
-        stream: true,
-      }),
-      signal: abortSignal,
-    });
+    options: { title?: string; sourceType?: SourceType; priority?: RequestPriority }
+  ): Promise<StructuredSummary> {
+    let parsed = this.tryParseJson(raw);
 
-    if (response.status === 429) {
-      throw new Error(`Rate limit exceeded (429) for model ${model}`);
+    if (parsed === null) {
+      console.log("[Summarize] Structured output was not valid JSON, asking model to repair it");
+      const repairPrompt = STRUCTURED_REPAIR_PROMPT.replace(/\{\{content\}\}/g, () => raw);
+      const repaired = await this.completion(model, repairPrompt, {
+        sourceType: options.sourceType,
+        priority: options.priority,
+      });
+      parsed = this.tryParseJson(repaired.content);
     }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`OpenRouter API error: ${response.status} - ${errorText}`);
+    if (parsed === null) {
+      throw new Error("Model did not return valid JSON for the structured summary");
     }
 
-    const reader = response.body?.getReader();
-    if (!reader) {
-      throw new Error("No response body reader available");
-    }
+    return this.normalizeStructuredSummary(parsed, options.title);
+  }
 
-    const decoder = new TextDecoder();
-    let fullContent = "";
+  /**
+   * Extract and parse the first JSON object in a string, or null
+   */
+  private tryParseJson(raw: string): Record<string, unknown> | null {
+    const withoutFences = raw.replace(/```(?:json)?/gi, "");
+    const start = withoutFences.indexOf("{");
+    const end = withoutFences.lastIndexOf("}");
+    if (start === -1 || end <= start) return null;
 
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
+    const candidate = withoutFences.slice(start, end + 1);
+    const attempts = [
+      candidate,
+      // Common model mistakes: trailing commas and typographic quotes
+      candidate.replace(/,\s*([}\]])/g, "$1").replace(/[\u201C\u201D]/g, '"'),
+    ];
 
-      const chunk = decoder.decode(value);
-      const lines = chunk.split("\n");
+    for (const attempt of attempts) {
+      try {
+        const value = JSON.parse(attempt);
+        if (value && typeof value === "object" && !Array.isArray(value)) {
+          return value as Record<string, unknown>;
+        }
+      } catch {
+        // Try the next repair
+      }
+    }
+    return null;
+  }
 
-      for (const line of lines) {
-        if (line.startsWith("data: ")) {
-          const data = line.slice(6);
-          if (data === "[DONE]") continue;
+  /**
+   * Coerce parsed JSON into the StructuredSummary shape
+   */
+  private normalizeStructuredSummary(
+    data: Record<string, unknown>,
+    fallbackTitle?: string
+  ): StructuredSummary {
+    const toStrings = (value: unknown): string[] =>
+      Array.isArray(value)
+        ? value
+            .map((item) => (typeof item === "string" ? item : JSON.stringify(item)))
+            .map((item) => item.trim())
+            .filter(Boolean)
+        : typeof value === "string" && value.trim()
+          ? [value.trim()]
+          : [];
 
-          try {
-            const parsed = JSON.parse(data);
+    const entities = Array.isArray(data.entities)
+      ? data.entities
+          .map((entity) => {
+            if (typeof entity === "string") return { name: entity, type: "other" };
+            const record = (entity ?? {}) as Record<string, unknown>;
+            return {
+              name: typeof record.name === "string" ? record.name : "",
+              type: typeof record.type === "string" ? record.type : "other",
+            };
+          })
+          .filter((entity) => entity.name)
+      : [];
 
-            // Check for error in stream
-            if (parsed.error) {
-              throw new Error(parsed.error.message || JSON.stringify(parsed.error));
-            }
+    return {
+      tldr: typeof data.tldr === "string" ? data.tldr.trim() : "",
+      keyPoints: toStrings(data.keyPoints),
+      entities,
+      actionItems: toStrings(data.actionItems),
+      openQuestions: toStrings(data.openQuestions),
+      sourceTitle:
+        typeof data.sourceTitle === "string" && data.sourceTitle.trim()
+          ? data.sourceTitle.trim()
+          : fallbackTitle || "",
+    };
+  }
 
-            const content = parsed.choices?.[0]?.delta?.content;
-            if (content) {
-              fullContent += content;
-              onStream(content);
-            }
-          } catch (e) {
-            // Only rethrow if it's our error, ignore JSON parse errors
-            if (e instanceof Error && e.message.includes("error")) {
-              throw e;
-            }
-          }
-        }
+  /**
+   * Make a streaming completion request
+   */
+  private async streamCompletion(
+    model: string,
+    prompt: string | ChatMessage[],
+    onStream: (chunk: string) => void,
+    options: CallOptions = {}
+  ): Promise<LLMResponse> {
+    await this.checkBudget(model);
+    const resolved = this.resolveModel(model);
+    const messages = toMessages(prompt);
+    let sent = false;
+    let streamedChars = 0;
+    try {
+      const response = await this.schedule(
+        model,
+        () => {
+          sent = true;
+          return resolved.provider.stream(
+            {
+              model: resolved.model,
+              messages,
+              maxTokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+              temperature: options.temperature,
+            },
+            (chunk) => {
+              streamedChars += chunk.length;
+              onStream(chunk);
+            },
+            options.abortSignal
+          );
+        },
+        options
+      );
+      await this.recordUsage(resolved.provider, response, options.sourceType);
+      return response;
+    } catch (error) {
+      // A stream that fails or is cancelled after it started is still billed,
+      // but its final usage chunk never arrives, so record an estimate
+      if (sent && (streamedChars > 0 || options.abortSignal?.aborted)) {
+        const usage = this.estimateUsage(messages, streamedChars);
+        await this.recordUsage(resolved.provider, { content: "", model: resolved.model, usage }, options.sourceType);
       }
+      throw error;
     }
+  }
 
+  /**
+   * Estimated token usage of a request whose provider reported none
+   */
+  private estimateUsage(messages: ChatMessage[], completionChars: number): LLMResponse["usage"] {
+    const promptTokens = this.estimateTokens(messages.map((m) => m.content).join("\n"));
+    const completionTokens = Math.ceil(completionChars / CHARS_PER_TOKEN);
     return {
-      content: fullContent,
-      model,
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
     };
   }
 
@@ -322,6 +1182,9 @@ export class LLMService {
       return 0;
     };
 
+    const topProvider = (raw.top_provider as Record<string, unknown> | undefined) ?? {};
+    const maxCompletionTokens = parseNumber(topProvider.max_completion_tokens);
+
     const contextLengthRaw = raw.context_length;
     const contextLength =
       typeof contextLengthRaw === "number"
@@ -337,6 +1200,7 @@ export class LLMService {
       name: typeof raw.name === "string" ? raw.name : id,
       description: typeof raw.description === "string" ? raw.description : undefined,
       context_length: Number.isFinite(contextLength) ? contextLength : 4096,
+      max_completion_tokens: maxCompletionTokens > 0 ? maxCompletionTokens : undefined,
       pricing: {
         prompt: parseNumber(pricing.prompt),
         completion: parseNumber(pricing.completion),
@@ -357,6 +1221,25 @@ export class LLMService {
     return model.id.endsWith(":free") || (model.pricing.prompt === 0 && model.pricing.completion === 0);
   }
 
+  /**
+   * Estimate the USD cost of a completion from cached OpenRouter pricing.
+   * Returns null when the model's pricing is unknown (e.g. other providers).
+   */
+  estimateCost(modelId: string, usage: LLMResponse["usage"]): number | null {
+    if (!usage) return null;
+
+    const id = modelId.startsWith(`${OPENROUTER_PROVIDER_ID}:`)
+      ? modelId.slice(OPENROUTER_PROVIDER_ID.length + 1)
+      : modelId;
+    const model = this.settings.openRouter.models.find((m) => m.id === id);
+    if (!model) return null;
+
+    return (
+      usage.prompt_tokens * (model.pricing.prompt || 0) +
+      usage.completion_tokens * (model.pricing.completion || 0)
+    );
+  }
+
   /**
    * Format model pricing for display
    */
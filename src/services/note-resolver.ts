@@ -0,0 +1,248 @@
+import { App, TFile } from "obsidian";
+import { SummarizeSettings } from "../types";
+
+const CHARS_PER_TOKEN = 4;
+/** Embeds inside embeds are expanded up to this depth */
+const MAX_EMBED_DEPTH = 3;
+const IMAGE_EXTENSIONS = new Set(["png", "jpg", "jpeg", "gif", "bmp", "svg", "webp", "avif"]);
+
+const FRONTMATTER_REGEX = /^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/;
+const DATAVIEW_BLOCK_REGEX = /^(```|~~~)\s*dataview(?:js)?\b[^\n]*\n[\s\S]*?^\1[ \t]*$\n?/gm;
+const INLINE_DATAVIEW_REGEX = /`\$?=[^`\n]*`/g;
+const CODE_BLOCK_REGEX = /^(```|~~~)[^\n]*\n[\s\S]*?^\1[ \t]*$/gm;
+const EMBED_REGEX = /!\[\[([^\]]+)\]\]/g;
+const WIKILINK_REGEX = /(^|[^!])\[\[([^\]]+)\]\]/g;
+
+/** Characters of embedded and linked content that may still be added */
+interface ContextBudget {
+  remaining: number;
+}
+
+interface LinkTarget {
+  path: string;
+  /** Heading name or "^blockid" after the #, if any */
+  subpath: string;
+  alias: string;
+}
+
+/**
+ * Turns a note into what a reader actually sees: frontmatter and Dataview
+ * queries are removed, embeds are expanded into their content (including
+ * heading and block references), and linked notes can be appended as extra
+ * context. Embedded and linked content shares a token budget; the note itself
+ * is never cut, as long notes are summarized in chunks.
+ */
+export class NoteResolver {
+  private app: App;
+  private settings: SummarizeSettings;
+
+  constructor(app: App, settings: SummarizeSettings) {
+    this.app = app;
+    this.settings = settings;
+  }
+
+  updateSettings(settings: SummarizeSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Resolve a note's content for summarization
+   * @param content - Note content (may include unsaved edits)
+   * @param sourcePath - Path of the note, used to resolve relative links
+   */
+  async resolve(content: string, sourcePath: string): Promise<string> {
+    const budget: ContextBudget = {
+      remaining: this.settings.noteContextTokens > 0 ? this.settings.noteContextTokens * CHARS_PER_TOKEN : Infinity,
+    };
+
+    const cleaned = this.clean(content);
+    let resolved = cleaned;
+    if (this.settings.noteResolveEmbeds) {
+      resolved = await this.expandEmbeds(cleaned, sourcePath, new Set([sourcePath]), 0, budget);
+    }
+    resolved = resolved.trim();
+
+    if (this.settings.noteIncludeLinkedNotes) {
+      resolved += await this.collectLinkedNotes(cleaned, sourcePath, budget);
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Remove frontmatter and Dataview queries, which readers see rendered (or not at all)
+   */
+  private clean(content: string): string {
+    return this.mapOutsideCode(
+      content.replace(FRONTMATTER_REGEX, "").replace(DATAVIEW_BLOCK_REGEX, ""),
+      (text) => text.replace(INLINE_DATAVIEW_REGEX, "")
+    );
+  }
+
+  /**
+   * Replace ![[embeds]] outside code blocks with the embedded content.
+   * Top-level embeds (with everything nested in them) are charged to the budget.
+   */
+  private async expandEmbeds(
+    content: string,
+    sourcePath: string,
+    ancestors: Set<string>,
+    depth: number,
+    budget: ContextBudget
+  ): Promise<string> {
+    const codeRanges = this.findCodeRanges(content);
+    const parts: string[] = [];
+    let lastIndex = 0;
+
+    for (const match of Array.from(content.matchAll(EMBED_REGEX))) {
+      const index = match.index ?? 0;
+      if (codeRanges.some(([start, end]) => index >= start && index < end)) continue;
+
+      parts.push(content.slice(lastIndex, index));
+      let embedded = await this.resolveEmbed(match[1], sourcePath, ancestors, depth, budget);
+      if (depth === 0) {
+        const label = this.parseLink(match[1]).path || match[1];
+        embedded = this.truncate(embedded, budget.remaining, `Embedded note "${label}"`);
+        budget.remaining -= embedded.length;
+      }
+      parts.push(embedded);
+      lastIndex = index + match[0].length;
+    }
+    parts.push(content.slice(lastIndex));
+
+    return parts.join("");
+  }
+
+  private async resolveEmbed(
+    link: string,
+    sourcePath: string,
+    ancestors: Set<string>,
+    depth: number,
+    budget: ContextBudget
+  ): Promise<string> {
+    const target = this.parseLink(link);
+    const file = this.app.metadataCache.getFirstLinkpathDest(target.path, sourcePath);
+    const label = target.alias || target.path || file?.basename || link;
+
+    if (!file) return `[Missing embed: ${label}]`;
+    if (IMAGE_EXTENSIONS.has(file.extension)) return `[Image: ${target.alias || file.name}]`;
+    if (file.extension !== "md") return `[Embedded file: ${target.alias || file.name}]`;
+    if (ancestors.has(file.path) || depth >= MAX_EMBED_DEPTH) return `[Embedded note: ${label}]`;
+
+    const data = await this.app.vault.cachedRead(file);
+    const section = target.subpath ? this.extractSubpath(file, data, target.subpath) : data;
+    if (section === null) return `[Missing section: ${file.basename}#${target.subpath}]`;
+
+    const nested = new Set(ancestors).add(file.path);
+    const expanded = await this.expandEmbeds(this.clean(section), file.path, nested, depth + 1, budget);
+    return expanded.trim();
+  }
+
+  /**
+   * The part of a note a heading or ^block reference points to, or null if it does not exist
+   */
+  private extractSubpath(file: TFile, data: string, subpath: string): string | null {
+    const cache = this.app.metadataCache.getFileCache(file);
+
+    if (subpath.startsWith("^")) {
+      const block = cache?.blocks?.[subpath.slice(1).toLowerCase()];
+      if (!block) return null;
+      return data
+        .slice(block.position.start.offset, block.position.end.offset)
+        .replace(/\s*\^[\w-]+\s*$/, "");
+    }
+
+    // Nested heading references (#Parent#Child) point to the last heading
+    const name = this.normalizeHeading(subpath.split("#").pop() ?? "");
+    const headings = cache?.headings ?? [];
+    const index = headings.findIndex((h) => this.normalizeHeading(h.heading) === name);
+    if (index === -1) return null;
+
+    const heading = headings[index];
+    const next = headings.slice(index + 1).find((h) => h.level <= heading.level);
+    return data.slice(heading.position.start.offset, next?.position.start.offset ?? data.length);
+  }
+
+  /**
+   * One hop of [[linked notes]], each under its own heading, within the remaining budget
+   */
+  private async collectLinkedNotes(content: string, sourcePath: string, budget: ContextBudget): Promise<string> {
+    const seen = new Set<string>([sourcePath]);
+    const sections: string[] = [];
+    const codeRanges = this.findCodeRanges(content);
+
+    for (const match of Array.from(content.matchAll(WIKILINK_REGEX))) {
+      const index = (match.index ?? 0) + match[1].length;
+      if (codeRanges.some(([start, end]) => index >= start && index < end)) continue;
+
+      const target = this.parseLink(match[2]);
+      const file = this.app.metadataCache.getFirstLinkpathDest(target.path, sourcePath);
+      if (!file || file.extension !== "md" || seen.has(file.path)) continue;
+      seen.add(file.path);
+
+      const name = `Linked note "${file.basename}"`;
+      if (budget.remaining <= 0) {
+        sections.push(`\n\n${this.omitted(name)}`);
+        continue;
+      }
+
+      const body = this.clean(await this.app.vault.cachedRead(file)).trim();
+      if (!body) continue;
+
+      const section = this.truncate(`\n\n---\n\n## Linked note: ${file.basename}\n\n${body}`, budget.remaining, name);
+      sections.push(section);
+      budget.remaining -= section.length;
+    }
+
+    return sections.join("");
+  }
+
+  private parseLink(link: string): LinkTarget {
+    const [target, alias = ""] = link.split("|");
+    const hashIndex = target.indexOf("#");
+    return {
+      path: (hashIndex === -1 ? target : target.slice(0, hashIndex)).trim(),
+      subpath: hashIndex === -1 ? "" : target.slice(hashIndex + 1).trim(),
+      alias: alias.trim(),
+    };
+  }
+
+  private normalizeHeading(heading: string): string {
+    return heading.replace(/[#|^:%[\]]/g, " ").replace(/\s+/g, " ").trim().toLowerCase();
+  }
+
+  /**
+   * Start and end offsets of fenced code blocks
+   */
+  private findCodeRanges(content: string): [number, number][] {
+    return Array.from(content.matchAll(CODE_BLOCK_REGEX)).map((match) => [
+      match.index ?? 0,
+      (match.index ?? 0) + match[0].length,
+    ]);
+  }
+
+  private mapOutsideCode(content: string, fn: (text: string) => string): string {
+    const parts: string[] = [];
+    let lastIndex = 0;
+    for (const [start, end] of this.findCodeRanges(content)) {
+      parts.push(fn(content.slice(lastIndex, start)), content.slice(start, end));
+      lastIndex = end;
+    }
+    parts.push(fn(content.slice(lastIndex)));
+    return parts.join("");
+  }
+
+  /**
+   * Cut text to the remaining budget. Content that does not fit at all is
+   * replaced by a placeholder naming it, so the summary does not silently miss it.
+   */
+  private truncate(text: string, maxChars: number, name: string): string {
+    if (text.length <= maxChars) return text;
+    if (maxChars <= 0) return this.omitted(name);
+    return `${text.slice(0, maxChars)}\n\n[Truncated to fit the note context budget]`;
+  }
+
+  private omitted(name: string): string {
+    return `[${name} omitted: over the note context budget]`;
+  }
+}
@@ -0,0 +1,141 @@
+import { App, TFile, moment, normalizePath } from "obsidian";
+import { SummarizeSettings, SummaryLength } from "../types";
+
+export interface SummaryNoteMeta {
+  title?: string;
+  url?: string;
+  model?: string;
+  length?: SummaryLength;
+}
+
+const MAX_FILENAME_LENGTH = 100;
+/** Frontmatter property of summary notes, also used to recognize them */
+const SUMMARIZED_AT_PROPERTY = "summarized_at";
+/** Frontmatter property marking report notes */
+const REPORT_PROPERTY = "summary_report";
+
+/**
+ * Writes summaries to their own notes with frontmatter
+ */
+export class SummaryNoteWriter {
+  private app: App;
+  private settings: SummarizeSettings;
+
+  constructor(app: App, settings: SummarizeSettings) {
+    this.app = app;
+    this.settings = settings;
+  }
+
+  updateSettings(settings: SummarizeSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Create a summary note in the configured folder and return it
+   */
+  async createNote(summary: string, meta: SummaryNoteMeta): Promise<TFile> {
+    const title = meta.title?.trim() || "Summary";
+    const folder = normalizePath(this.settings.newNoteFolder.trim() || "/");
+    await this.ensureFolder(folder);
+
+    const basename = this.buildFilename(title);
+    const path = this.getAvailablePath(folder, basename);
+
+    const body = meta.url
+      ? `# ${title}\n\nSource: ${meta.url}\n\n${summary.trim()}\n`
+      : `# ${title}\n\n${summary.trim()}\n`;
+    const file = await this.app.vault.create(path, body);
+
+    const tags = this.settings.newNoteTags
+      .split(",")
+      .map((tag) => tag.trim().replace(/^#/, ""))
+      .filter(Boolean);
+
+    await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+      if (meta.url) frontmatter.source = meta.url;
+      frontmatter.title = title;
+      if (meta.model) frontmatter.model = meta.model;
+      if (meta.length) frontmatter.length = meta.length;
+      frontmatter.word_count = summary.trim().split(/\s+/).filter(Boolean).length;
+      frontmatter[SUMMARIZED_AT_PROPERTY] = moment().format();
+      if (tags.length > 0) frontmatter.tags = tags;
+    });
+
+    return file;
+  }
+
+  /**
+   * Create a plain note (e.g. a bulk summarization report) in the summary folder,
+   * marked in its frontmatter so it is recognized as output
+   */
+  async createReportNote(basename: string, body: string): Promise<TFile> {
+    const folder = normalizePath(this.settings.newNoteFolder.trim() || "/");
+    await this.ensureFolder(folder);
+    return this.app.vault.create(
+      this.getAvailablePath(folder, basename),
+      `---\n${REPORT_PROPERTY}: true\n---\n${body}`
+    );
+  }
+
+  /**
+   * Whether a note is a summary note or report written here: anything in the
+   * summary folder, or, when that is the vault root, notes marked in their frontmatter
+   */
+  isOutputNote(file: TFile): boolean {
+    const folder = normalizePath(this.settings.newNoteFolder.trim() || "/");
+    if (folder !== "/" && file.path.startsWith(`${folder}/`)) return true;
+
+    const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+    return !!frontmatter?.[REPORT_PROPERTY] || frontmatter?.[SUMMARIZED_AT_PROPERTY] !== undefined;
+  }
+
+  /**
+   * Render the filename template ({{date}}, {{time}}, {{title}}) into a safe basename
+   */
+  private buildFilename(title: string): string {
+    const now = moment();
+    const template = this.settings.newNoteFilename.trim() || "{{date}} {{title}}";
+    const name = template
+      .replace(/\{\{date\}\}/g, now.format("YYYY-MM-DD"))
+      .replace(/\{\{time\}\}/g, now.format("HHmm"))
+      .replace(/\{\{title\}\}/g, () => title);
+
+    const sanitized = name
+      .replace(/[\\/:*?"<>|#^[\]]/g, " ")
+      .replace(/\s+/g, " ")
+      .trim()
+      .slice(0, MAX_FILENAME_LENGTH)
+      .trim();
+
+    return sanitized || now.format("YYYY-MM-DD HHmm");
+  }
+
+  /**
+   * Find a path that doesn't exist yet by appending a counter
+   */
+  private getAvailablePath(folder: string, basename: string): string {
+    const prefix = folder === "/" ? "" : `${folder}/`;
+    let path = normalizePath(`${prefix}${basename}.md`);
+    let counter = 2;
+    while (this.app.vault.getAbstractFileByPath(path)) {
+      path = normalizePath(`${prefix}${basename} ${counter}.md`);
+      counter += 1;
+    }
+    return path;
+  }
+
+  /**
+   * Create a folder (and its parents) if it doesn't exist
+   */
+  private async ensureFolder(folder: string): Promise<void> {
+    if (folder === "/" || this.app.vault.getAbstractFileByPath(folder)) return;
+
+    const parts = folder.split("/");
+    for (let i = 1; i <= parts.length; i++) {
+      const path = parts.slice(0, i).join("/");
+      if (!this.app.vault.getAbstractFileByPath(path)) {
+        await this.app.vault.createFolder(path);
+      }
+    }
+  }
+}
@@ -0,0 +1,198 @@
+import { setIcon } from "obsidian";
+
+export type ProgressPhase = "fetching" | "extracting" | "queued" | "waiting" | "streaming";
+
+const PHASE_LABELS: Record<ProgressPhase, string> = {
+  fetching: "Fetching",
+  extracting: "Extracting",
+  queued: "Queued",
+  waiting: "Waiting for first token",
+  streaming: "Streaming",
+};
+
+/** Rough token estimate for the streaming rate */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * One cancellable task shown in the status bar, e.g. a summary being generated.
+ * Call finish() when it is done, failed or cancelled.
+ */
+export class ProgressTask {
+  readonly abortController: AbortController;
+  readonly startedAt = Date.now();
+  phase: ProgressPhase = "fetching";
+  /** Extra information, e.g. "Summarizing chunk 3/9..." or "4/10 links" */
+  detail = "";
+  model = "";
+  private firstTokenAt: number | null = null;
+  private streamedChars = 0;
+  private onUpdate: () => void;
+  private onFinish: (task: ProgressTask) => void;
+
+  constructor(abortController: AbortController, onUpdate: () => void, onFinish: (task: ProgressTask) => void) {
+    this.abortController = abortController;
+    this.onUpdate = onUpdate;
+    this.onFinish = onFinish;
+  }
+
+  setPhase(phase: ProgressPhase, detail = ""): void {
+    this.phase = phase;
+    this.detail = detail;
+    this.onUpdate();
+  }
+
+  setDetail(detail: string): void {
+    this.detail = detail;
+    this.onUpdate();
+  }
+
+  /**
+   * A request to this model started; the task now waits for its first token
+   */
+  setModel(model: string): void {
+    this.model = model;
+    this.firstTokenAt = null;
+    this.streamedChars = 0;
+    this.setPhase("waiting", this.detail);
+  }
+
+  /**
+   * Count streamed text for the token rate
+   */
+  addStreamed(chunk: string): void {
+    if (this.firstTokenAt === null) {
+      this.firstTokenAt = Date.now();
+      this.phase = "streaming";
+      this.detail = "";
+    }
+    this.streamedChars += chunk.length;
+    this.onUpdate();
+  }
+
+  /**
+   * Estimated tokens per second since the first token, or null before streaming
+   */
+  getTokenRate(): number | null {
+    if (this.firstTokenAt === null) return null;
+    const seconds = (Date.now() - this.firstTokenAt) / 1000;
+    return seconds >= 1 ? this.streamedChars / CHARS_PER_TOKEN / seconds : null;
+  }
+
+  cancel(): void {
+    this.abortController.abort();
+  }
+
+  finish(): void {
+    this.onFinish(this);
+  }
+}
+
+/**
+ * Status bar item showing the phase, elapsed time, token rate and model of the
+ * running summary, with a button to cancel it. Hidden while nothing runs.
+ */
+export class ProgressIndicator {
+  private el: HTMLElement;
+  private textEl: HTMLElement;
+  private tasks: ProgressTask[] = [];
+  private timer: number | null = null;
+
+  constructor(statusBarEl: HTMLElement) {
+    this.el = statusBarEl;
+    this.el.addClass("summarize-progress");
+    this.textEl = this.el.createSpan();
+
+    const cancelEl = this.el.createSpan({ cls: "summarize-progress-cancel", attr: { "aria-label": "Cancel" } });
+    setIcon(cancelEl, "x");
+    cancelEl.style.cursor = "pointer";
+    cancelEl.style.marginLeft = "4px";
+    cancelEl.addEventListener("click", () => this.cancelCurrent());
+
+    this.el.hide();
+  }
+
+  /**
+   * Show a new task. It is cancelled with its own controller, and also when
+   * abortSignal (e.g. from an API caller) aborts.
+   */
+  start(abortSignal?: AbortSignal): ProgressTask {
+    const abortController = new AbortController();
+    const onAbort = () => abortController.abort();
+    if (abortSignal?.aborted) {
+      abortController.abort();
+    } else {
+      abortSignal?.addEventListener("abort", onAbort, { once: true });
+    }
+
+    const task = new ProgressTask(abortController, () => this.render(), (finished) => {
+      // The caller's signal may outlive the task
+      abortSignal?.removeEventListener("abort", onAbort);
+      this.remove(finished);
+    });
+    this.tasks.push(task);
+    // Elapsed time and rate change without events, so refresh every second while tasks run
+    this.timer ??= window.setInterval(() => this.render(), 1000);
+    this.render();
+    return task;
+  }
+
+  /**
+   * Whether any task is running
+   */
+  isRunning(): boolean {
+    return this.tasks.length > 0;
+  }
+
+  /**
+   * Cancel the task on display, as the status bar button does
+   */
+  cancelCurrent(): void {
+    this.tasks[this.tasks.length - 1]?.cancel();
+  }
+
+  destroy(): void {
+    this.tasks = [];
+    this.stopTimer();
+    this.el.remove();
+  }
+
+  private remove(task: ProgressTask): void {
+    this.tasks = this.tasks.filter((t) => t !== task);
+    if (this.tasks.length === 0) this.stopTimer();
+    this.render();
+  }
+
+  private stopTimer(): void {
+    if (this.timer !== null) {
+      window.clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Show the most recent task; cancelling it leaves the others running
+   */
+  private render(): void {
+    const task = this.tasks[this.tasks.length - 1];
+    if (!task) {
+      this.el.hide();
+      return;
+    }
+    this.el.show();
+
+    const rate = task.getTokenRate();
+    const parts = [
+      task.detail || PHASE_LABELS[task.phase],
+      this.formatElapsed(Date.now() - task.startedAt),
+      rate !== null ? `${Math.round(rate)} tok/s` : "",
+      task.model,
+      this.tasks.length > 1 ? `+${this.tasks.length - 1} more` : "",
+    ].filter(Boolean);
+    this.textEl.setText(`Summarize: ${parts.join(" · ")}`);
+  }
+
+  private formatElapsed(ms: number): string {
+    const seconds = Math.floor(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+  }
+}
@@ -0,0 +1,150 @@
+import { moment } from "obsidian";
+import { PromptContext } from "../types";
+
+/**
+ * Everything a summarization prompt template can refer to
+ */
+export interface PromptVariables extends PromptContext {
+  content: string;
+  wordCount: number;
+}
+
+/** Variables available in prompt templates, besides frontmatter.<key> */
+export const PROMPT_VARIABLES = [
+  "content",
+  "wordCount",
+  "title",
+  "url",
+  "domain",
+  "date",
+  "noteTitle",
+  "language",
+  "sourceType",
+] as const;
+
+const TAG_PATTERN = /\{\{([^{}]*)\}\}/g;
+/** An {{#if}} block that contains no other {{#if}}, so nested blocks resolve inside out */
+const INNERMOST_IF_PATTERN =
+  /\{\{#if\s+([^{}\s]+)\s*\}\}((?:(?!\{\{#if\s)[\s\S])*?)(?:\{\{else\}\}((?:(?!\{\{#if\s)[\s\S])*?))?\{\{\/if\}\}/;
+const FRONTMATTER_PREFIX = "frontmatter.";
+
+/**
+ * Render a prompt template: resolve {{#if name}}...{{else}}...{{/if}} blocks,
+ * then substitute {{name}} variables. Unknown variables render empty.
+ */
+export function renderPromptTemplate(template: string, variables: PromptVariables): string {
+  let rendered = template;
+  let match: RegExpExecArray | null;
+  while ((match = INNERMOST_IF_PATTERN.exec(rendered))) {
+    const [block, name, body, elseBody = ""] = match;
+    const replacement = isTruthy(resolveVariable(name, variables)) ? body : elseBody;
+    rendered = rendered.slice(0, match.index) + replacement + rendered.slice(match.index + block.length);
+  }
+
+  // Single pass, so {{...}} inside the content or other values is left alone
+  const unknown = new Set<string>();
+  rendered = rendered.replace(TAG_PATTERN, (_, tag: string) => {
+    const name = tag.trim();
+    if (!isKnownVariable(name)) {
+      unknown.add(name);
+      return "";
+    }
+    return formatValue(resolveVariable(name, variables));
+  });
+
+  if (unknown.size > 0) {
+    console.warn(`[Summarize] Unknown prompt template variables: ${[...unknown].join(", ")}`);
+  }
+  return rendered;
+}
+
+/**
+ * Problems in a template, for display in settings: unknown variables and unbalanced blocks
+ */
+export function validatePromptTemplate(template: string): string[] {
+  const problems: string[] = [];
+  const unknown = new Set<string>();
+  let depth = 0;
+
+  for (const match of Array.from(template.matchAll(TAG_PATTERN))) {
+    const tag = match[1].trim();
+    if (tag === "else") {
+      if (depth === 0) problems.push("{{else}} outside of an {{#if}} block");
+    } else if (tag === "/if") {
+      if (depth === 0) {
+        problems.push("{{/if}} without a matching {{#if}}");
+      } else {
+        depth -= 1;
+      }
+    } else if (tag.startsWith("#if")) {
+      depth += 1;
+      const name = tag.slice(3).trim();
+      if (!isKnownVariable(name)) unknown.add(name || "(empty condition)");
+    } else if (!isKnownVariable(tag)) {
+      unknown.add(tag);
+    }
+  }
+
+  if (depth > 0) {
+    problems.push(`${depth} {{#if}} ${depth === 1 ? "block is" : "blocks are"} not closed with {{/if}}`);
+  }
+  if (unknown.size > 0) {
+    problems.unshift(`Unknown ${unknown.size === 1 ? "variable" : "variables"}: ${[...unknown].join(", ")}`);
+  }
+  if (!/\{\{\s*content\s*\}\}/.test(template)) {
+    problems.push("The template has no {{content}}, so the model will not see the source");
+  }
+  return problems;
+}
+
+function isKnownVariable(name: string): boolean {
+  if (name.startsWith(FRONTMATTER_PREFIX)) {
+    return name.length > FRONTMATTER_PREFIX.length;
+  }
+  return (PROMPT_VARIABLES as readonly string[]).includes(name);
+}
+
+function resolveVariable(name: string, variables: PromptVariables): unknown {
+  if (name.startsWith(FRONTMATTER_PREFIX)) {
+    return variables.frontmatter?.[name.slice(FRONTMATTER_PREFIX.length)];
+  }
+
+  switch (name) {
+    case "domain":
+      return getDomain(variables.url);
+    case "date":
+      return moment().format("YYYY-MM-DD");
+    case "content":
+    case "wordCount":
+    case "title":
+    case "url":
+    case "noteTitle":
+    case "language":
+    case "sourceType":
+      return variables[name];
+    default:
+      return undefined;
+  }
+}
+
+function getDomain(url?: string): string {
+  if (!url) return "";
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return "";
+  }
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === "string") return value.trim().length > 0;
+  return value !== undefined && value !== null && value !== false;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) return value.map(formatValue).join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
@@ -0,0 +1,241 @@
+import { RequestPriority, SummarizeSettings } from "../types";
+
+export interface SchedulerStatus {
+  running: number;
+  queued: Record<RequestPriority, number>;
+}
+
+interface QueuedRequest {
+  start: () => void;
+}
+
+/**
+ * One caller of a de-duplicated request
+ */
+export interface DedupeCaller {
+  /** Cancels this caller only; the shared request is aborted once every caller has cancelled */
+  abortSignal?: AbortSignal;
+  /** Receives the streamed text, starting with what was streamed before the caller joined */
+  onStream?: (chunk: string) => void;
+  /**
+   * Called when the shared stream starts over with another model. Callers that
+   * stream without it are rejected instead, as their text can no longer be completed.
+   */
+  onStreamReset?: () => void;
+}
+
+/**
+ * What the shared task of a de-duplicated request reports to and hears from its callers
+ */
+export interface SharedRequest {
+  abortSignal: AbortSignal;
+  onStream: (chunk: string) => void;
+  onStreamReset: () => void;
+}
+
+interface DedupeSubscriber extends DedupeCaller {
+  leave: (error: Error) => void;
+}
+
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: Set<DedupeSubscriber>;
+  /** Text streamed so far, replayed to callers that join late */
+  streamed: string;
+}
+
+/** Lanes in the order they are served */
+const PRIORITIES: RequestPriority[] = ["interactive", "background"];
+
+/**
+ * Global queue in front of all model requests. At most `maxConcurrentRequests`
+ * run at once; interactive requests (editor commands) are started before
+ * background ones (API calls from other plugins, bulk summaries).
+ */
+export class RequestScheduler {
+  private settings: SummarizeSettings;
+  private running = 0;
+  private queues: Record<RequestPriority, QueuedRequest[]> = { interactive: [], background: [] };
+  /** Requests shared by identical callers, by dedupe key */
+  private inFlight = new Map<string, InFlightRequest>();
+
+  /** Called whenever a request is queued, started or finished */
+  onChange: ((status: SchedulerStatus) => void) | null = null;
+
+  constructor(settings: SummarizeSettings) {
+    this.settings = settings;
+  }
+
+  updateSettings(settings: SummarizeSettings): void {
+    this.settings = settings;
+    this.pump();
+  }
+
+  /**
+   * Run a request once a slot is free. Aborting while it is still queued
+   * removes it from the queue and rejects with an AbortError.
+   */
+  run<T>(task: () => Promise<T>, priority: RequestPriority = "interactive", abortSignal?: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (abortSignal?.aborted) {
+        reject(new DOMException("Aborted", "AbortError"));
+        return;
+      }
+
+      const queue = this.queues[priority];
+      const onAbort = () => {
+        const index = queue.indexOf(request);
+        if (index === -1) return;
+        queue.splice(index, 1);
+        this.notify();
+        reject(new DOMException("Aborted", "AbortError"));
+      };
+      const request: QueuedRequest = {
+        start: () => {
+          abortSignal?.removeEventListener("abort", onAbort);
+          this.running++;
+          Promise.resolve()
+            .then(task)
+            .then(resolve, reject)
+            .finally(() => {
+              this.running--;
+              this.pump();
+            });
+        },
+      };
+
+      abortSignal?.addEventListener("abort", onAbort);
+      queue.push(request);
+      this.pump();
+    });
+  }
+
+  /**
+   * Share one in-flight request among identical callers: while a request with
+   * this key is running, later callers join it instead of starting another.
+   * Streamed text is passed on to every caller. A caller that cancels stops
+   * waiting on its own; the request itself is aborted when no caller is left.
+   * @returns The result, and whether it came from another caller's request
+   */
+  dedupe<T>(
+    key: string,
+    task: (shared: SharedRequest) => Promise<T>,
+    caller: DedupeCaller = {}
+  ): Promise<{ result: T; joined: boolean }> {
+    if (caller.abortSignal?.aborted) {
+      return Promise.reject(new DOMException("Aborted", "AbortError"));
+    }
+
+    const existing = this.inFlight.get(key);
+    const request = existing ?? this.startShared(key, task);
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => subscriber.leave(new DOMException("Aborted", "AbortError"));
+      const finish = () => {
+        caller.abortSignal?.removeEventListener("abort", onAbort);
+        return request.subscribers.delete(subscriber);
+      };
+      const subscriber: DedupeSubscriber = {
+        ...caller,
+        leave: (error) => {
+          if (!finish()) return;
+          if (request.subscribers.size === 0) {
+            // Nobody waits for the result any more
+            if (this.inFlight.get(key) === request) this.inFlight.delete(key);
+            request.controller.abort();
+          }
+          reject(error);
+        },
+      };
+
+      if (request.streamed) caller.onStream?.(request.streamed);
+      request.subscribers.add(subscriber);
+      caller.abortSignal?.addEventListener("abort", onAbort);
+
+      (request.promise as Promise<T>).then(
+        (result) => {
+          if (finish()) resolve({ result, joined: !!existing });
+        },
+        (error) => {
+          if (finish()) reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Start the task of a de-duplicated request, fanning its stream out to the callers
+   */
+  private startShared<T>(key: string, task: (shared: SharedRequest) => Promise<T>): InFlightRequest {
+    const request: InFlightRequest = {
+      promise: Promise.resolve(),
+      controller: new AbortController(),
+      subscribers: new Set(),
+      streamed: "",
+    };
+    const forEachSubscriber = (callback: (subscriber: DedupeSubscriber) => void) => {
+      request.subscribers.forEach((subscriber) => {
+        try {
+          callback(subscriber);
+        } catch (error) {
+          // A failing callback ends that caller's wait, not the shared request
+          subscriber.leave(error instanceof Error ? error : new Error(String(error)));
+        }
+      });
+    };
+
+    request.promise = Promise.resolve()
+      .then(() =>
+        task({
+          abortSignal: request.controller.signal,
+          onStream: (chunk) => {
+            request.streamed += chunk;
+            forEachSubscriber((subscriber) => subscriber.onStream?.(chunk));
+          },
+          onStreamReset: () => {
+            request.streamed = "";
+            forEachSubscriber((subscriber) => {
+              if (subscriber.onStreamReset) {
+                subscriber.onStreamReset();
+              } else if (subscriber.onStream) {
+                throw new Error("The model failed mid-stream and the streamed text was discarded");
+              }
+            });
+          },
+        })
+      )
+      .finally(() => {
+        if (this.inFlight.get(key) === request) this.inFlight.delete(key);
+      });
+    // Callers handle the outcome; this keeps an abandoned request from being reported as unhandled
+    request.promise.catch(() => undefined);
+
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  getStatus(): SchedulerStatus {
+    return {
+      running: this.running,
+      queued: { interactive: this.queues.interactive.length, background: this.queues.background.length },
+    };
+  }
+
+  /**
+   * Start queued requests while slots are free, highest priority first
+   */
+  private pump(): void {
+    const limit = Math.max(1, this.settings.maxConcurrentRequests);
+    while (this.running < limit) {
+      const lane = PRIORITIES.find((priority) => this.queues[priority].length > 0);
+      if (!lane) break;
+      this.queues[lane].shift()?.start();
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    this.onChange?.(this.getStatus());
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * A server-sent event
+ */
+export interface SSEEvent {
+  /** Value of the "event:" field, "message" if there was none */
+  event: string;
+  /** "data:" lines joined with newlines */
+  data: string;
+  id?: string;
+}
+
+/**
+ * Incremental parser for server-sent event streams.
+ * Feed it chunks as they arrive from the network; lines and multi-byte
+ * characters split across chunks are buffered until they are complete.
+ */
+export class SSEParser {
+  private decoder = new TextDecoder();
+  private buffer = "";
+  private eventType = "";
+  private dataLines: string[] = [];
+  private lastEventId: string | undefined;
+
+  /**
+   * Parse a chunk and return the events it completes
+   */
+  push(chunk: Uint8Array | string): SSEEvent[] {
+    this.buffer += typeof chunk === "string" ? chunk : this.decoder.decode(chunk, { stream: true });
+    return this.drainLines(false);
+  }
+
+  /**
+   * Flush the stream at its end. A last event without a trailing blank line is still dispatched.
+   */
+  end(): SSEEvent[] {
+    this.buffer += this.decoder.decode();
+    const events = this.drainLines(true);
+    this.dispatch(events);
+    return events;
+  }
+
+  private drainLines(final: boolean): SSEEvent[] {
+    const events: SSEEvent[] = [];
+    // A trailing "\r" may be the first half of a "\r\n" in the next chunk
+    const pendingCR = !final && this.buffer.endsWith("\r");
+    const lines = (pendingCR ? this.buffer.slice(0, -1) : this.buffer).split(/\r\n|\r|\n/);
+    this.buffer = (lines.pop() ?? "") + (pendingCR ? "\r" : "");
+
+    for (const line of lines) {
+      this.processLine(line, events);
+    }
+    if (final && this.buffer) {
+      this.processLine(this.buffer, events);
+      this.buffer = "";
+    }
+    return events;
+  }
+
+  private processLine(line: string, events: SSEEvent[]): void {
+    if (line === "") {
+      this.dispatch(events);
+      return;
+    }
+    // Comments, e.g. ": OPENROUTER PROCESSING" keep-alives
+    if (line.startsWith(":")) return;
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    switch (field) {
+      case "event":
+        this.eventType = value;
+        break;
+      case "data":
+        this.dataLines.push(value);
+        break;
+      case "id":
+        this.lastEventId = value;
+        break;
+      // "retry" and unknown fields are ignored
+    }
+  }
+
+  private dispatch(events: SSEEvent[]): void {
+    if (this.dataLines.length > 0) {
+      events.push({
+        event: this.eventType || "message",
+        data: this.dataLines.join("\n"),
+        ...(this.lastEventId !== undefined ? { id: this.lastEventId } : {}),
+      });
+    }
+    this.eventType = "";
+    this.dataLines = [];
+  }
+}
+
+/**
+ * Read a streamed response body to the end, calling onEvent for each event.
+ * If onEvent throws, the stream is cancelled and the error propagates.
+ */
+export async function readEventStream(
+  body: ReadableStream<Uint8Array> | null,
+  onEvent: (event: SSEEvent) => void
+): Promise<void> {
+  const reader = body?.getReader();
+  if (!reader) {
+    throw new Error("No response body reader available");
+  }
+
+  const parser = new SSEParser();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      parser.push(value).forEach(onEvent);
+    }
+    parser.end().forEach(onEvent);
+  } catch (error) {
+    reader.cancel().catch(() => undefined);
+    throw error;
+  }
+}
@@ -0,0 +1,42 @@
+import { SummarizeEventMap, SummarizeEventName } from "../types";
+
+type Listener<E extends SummarizeEventName> = (payload: SummarizeEventMap[E]) => void;
+
+/**
+ * Typed event emitter for the summary lifecycle events of the public API
+ */
+export class SummarizeEvents {
+  private listeners: { [E in SummarizeEventName]?: Set<Listener<E>> } = {};
+
+  on<E extends SummarizeEventName>(event: E, callback: Listener<E>): () => void {
+    const listeners = this.listeners[event] ?? new Set<Listener<E>>();
+    listeners.add(callback);
+    this.listeners[event] = listeners as (typeof this.listeners)[E];
+    return () => this.off(event, callback);
+  }
+
+  off<E extends SummarizeEventName>(event: E, callback: Listener<E>): void {
+    this.listeners[event]?.delete(callback);
+  }
+
+  hasListeners(event: SummarizeEventName): boolean {
+    return (this.listeners[event]?.size ?? 0) > 0;
+  }
+
+  /**
+   * Call every listener of an event. A failing listener is logged and does not affect the others.
+   */
+  emit<E extends SummarizeEventName>(event: E, payload: SummarizeEventMap[E]): void {
+    this.listeners[event]?.forEach((listener) => {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`[Summarize] ${event} listener failed:`, error);
+      }
+    });
+  }
+
+  clear(): void {
+    this.listeners = {};
+  }
+}
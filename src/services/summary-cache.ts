@@ -0,0 +1,215 @@
+import { App } from "obsidian";
+import { SummarizeSettings, SummaryLength, PromptContext, DEFAULT_PROMPT, LENGTH_WORD_COUNTS } from "../types";
+import { renderPromptTemplate } from "./prompt-template";
+
+export interface CachedSummary {
+  content: string;
+  model: string;
+  title?: string;
+  url?: string;
+  createdAt: number;
+}
+
+interface CacheFile {
+  version: 1;
+  entries: Record<string, CachedSummary>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Fast non-cryptographic string hash (cyrb53), returned as hex
+ */
+export function hashString(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
+/**
+ * Persistent cache of generated summaries, stored as JSON in the plugin folder.
+ * Keyed by (normalized URL or content hash, model, length, temperature, rendered prompt hash).
+ */
+export class SummaryCache {
+  private app: App;
+  private path: string;
+  private settings: SummarizeSettings;
+  private entries: Record<string, CachedSummary> | null = null;
+
+  constructor(app: App, path: string, settings: SummarizeSettings) {
+    this.app = app;
+    this.path = path;
+    this.settings = settings;
+  }
+
+  updateSettings(settings: SummarizeSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Build a cache key for a URL or raw content with the effective summarization options.
+   * `context` holds the prompt template variables known before the source is read
+   * (language, note title, frontmatter, ...).
+   */
+  buildKey(
+    source: { url?: string; content?: string },
+    options?: {
+      model?: string;
+      length?: SummaryLength;
+      prompt?: string;
+      citations?: boolean;
+      temperature?: number;
+      language?: string;
+      context?: PromptContext;
+    }
+  ): string {
+    const sourceKey = source.url
+      ? `url:${this.normalizeUrl(source.url)}`
+      : `content:${hashString(source.content ?? "")}`;
+    const template = options?.prompt || this.settings.customPrompt || DEFAULT_PROMPT;
+    const length = options?.length || this.settings.defaultLength;
+    // Rendered without the content, so the key changes with exactly the variables the
+    // template uses. Variables taken from the source itself (e.g. its title) follow from sourceKey.
+    const prompt = renderPromptTemplate(template, {
+      language: options?.language,
+      url: source.url,
+      ...options?.context,
+      content: "",
+      wordCount: LENGTH_WORD_COUNTS[length],
+    });
+
+    return hashString(
+      JSON.stringify([
+        sourceKey,
+        options?.model || this.settings.defaultModel,
+        length,
+        options?.temperature ?? null,
+        hashString(prompt),
+        this.settings.youtubeTimestampLinks,
+        options?.citations === false ? "off" : this.settings.citationMode,
+      ])
+    );
+  }
+
+  /**
+   * Get a cached summary, or null if missing, expired or caching is disabled
+   */
+  async get(key: string): Promise<CachedSummary | null> {
+    if (!this.settings.cacheEnabled) return null;
+
+    const entries = await this.load();
+    const entry = entries[key];
+    if (!entry) return null;
+
+    if (this.isExpired(entry)) {
+      delete entries[key];
+      await this.save();
+      return null;
+    }
+
+    return entry;
+  }
+
+  /**
+   * Store a summary, pruning expired and excess entries
+   */
+  async set(key: string, entry: Omit<CachedSummary, "createdAt">): Promise<void> {
+    if (!this.settings.cacheEnabled || !entry.content.trim()) return;
+
+    const entries = await this.load();
+    entries[key] = { ...entry, createdAt: Date.now() };
+    this.prune(entries);
+    await this.save();
+  }
+
+  /**
+   * Remove all cached summaries
+   */
+  async clear(): Promise<number> {
+    const entries = await this.load();
+    const count = Object.keys(entries).length;
+    this.entries = {};
+    await this.save();
+    return count;
+  }
+
+  /**
+   * Number of cached summaries
+   */
+  async size(): Promise<number> {
+    return Object.keys(await this.load()).length;
+  }
+
+  private isExpired(entry: CachedSummary): boolean {
+    const ttlDays = this.settings.cacheTtlDays;
+    return ttlDays > 0 && Date.now() - entry.createdAt > ttlDays * DAY_MS;
+  }
+
+  /**
+   * Drop expired entries, then the oldest ones beyond the size limit
+   */
+  private prune(entries: Record<string, CachedSummary>): void {
+    for (const [key, entry] of Object.entries(entries)) {
+      if (this.isExpired(entry)) {
+        delete entries[key];
+      }
+    }
+
+    const maxEntries = this.settings.cacheMaxEntries;
+    const keys = Object.keys(entries);
+    if (maxEntries > 0 && keys.length > maxEntries) {
+      keys
+        .sort((a, b) => entries[a].createdAt - entries[b].createdAt)
+        .slice(0, keys.length - maxEntries)
+        .forEach((key) => delete entries[key]);
+    }
+  }
+
+  /**
+   * Normalize a URL so trivial variations share a cache entry
+   * (host case, fragment, tracking parameters, trailing slash)
+   */
+  private normalizeUrl(url: string): string {
+    try {
+      const parsed = new URL(url);
+      parsed.hash = "";
+      parsed.hostname = parsed.hostname.toLowerCase().replace(/^www\./, "");
+      Array.from(parsed.searchParams.keys())
+        .filter((param) => param.startsWith("utm_") || param === "ref" || param === "fbclid")
+        .forEach((param) => parsed.searchParams.delete(param));
+      return parsed.toString().replace(/\/$/, "");
+    } catch {
+      return url.trim();
+    }
+  }
+
+  private async load(): Promise<Record<string, CachedSummary>> {
+    if (this.entries) return this.entries;
+
+    try {
+      if (await this.app.vault.adapter.exists(this.path)) {
+        const data = JSON.parse(await this.app.vault.adapter.read(this.path)) as CacheFile;
+        this.entries = data.entries ?? {};
+      } else {
+        this.entries = {};
+      }
+    } catch (error) {
+      console.warn("[Summarize] Failed to read summary cache, starting empty:", error);
+      this.entries = {};
+    }
+
+    return this.entries;
+  }
+
+  private async save(): Promise<void> {
+    const data: CacheFile = { version: 1, entries: this.entries ?? {} };
+    await this.app.vault.adapter.write(this.path, JSON.stringify(data));
+  }
+}
@@ -0,0 +1,176 @@
+import { App } from "obsidian";
+import { SummarizeSettings, SummaryLength } from "../types";
+
+export interface SummaryHistoryEntry {
+  id: string;
+  createdAt: number;
+  title: string;
+  /** Source URL of web pages, PDFs and videos */
+  url?: string;
+  /** Summarized note, or the note a selection was summarized in */
+  notePath?: string;
+  model: string;
+  length: SummaryLength;
+  /** Name of the prompt preset, if one was used */
+  preset?: string;
+  content: string;
+}
+
+export interface HistoryFilter {
+  /** Words that must all appear in the title, source, model or summary */
+  query?: string;
+  /** Source key, see getHistorySource */
+  source?: string;
+  model?: string;
+}
+
+interface HistoryFile {
+  version: 1;
+  entries: SummaryHistoryEntry[];
+}
+
+/**
+ * What a summary was made from: its URL or note path, empty for text from other plugins
+ */
+export function getHistorySource(entry: SummaryHistoryEntry): string {
+  return entry.url || entry.notePath || "";
+}
+
+/**
+ * Persistent history of every generated summary, stored as JSON in the plugin folder.
+ * Unlike the cache, entries are never replaced, so summaries of one source by
+ * different models can be compared.
+ */
+export class SummaryHistory {
+  private app: App;
+  private path: string;
+  private settings: SummarizeSettings;
+  private entries: SummaryHistoryEntry[] | null = null;
+
+  /** Called after entries are added or removed */
+  onChange: (() => void) | null = null;
+
+  constructor(app: App, path: string, settings: SummarizeSettings) {
+    this.app = app;
+    this.path = path;
+    this.settings = settings;
+  }
+
+  updateSettings(settings: SummarizeSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Record a summary, dropping the oldest ones beyond the size limit.
+   * Failures are logged rather than thrown so they never fail a summary.
+   */
+  async add(entry: Omit<SummaryHistoryEntry, "id" | "createdAt">): Promise<void> {
+    if (!this.settings.historyEnabled || !entry.content.trim()) return;
+
+    try {
+      const entries = await this.load();
+      entries.push({
+        ...entry,
+        id: Date.now().toString(36) + Math.random().toString(36).slice(2, 6),
+        createdAt: Date.now(),
+      });
+
+      const maxEntries = this.settings.historyMaxEntries;
+      if (maxEntries > 0 && entries.length > maxEntries) {
+        entries.splice(0, entries.length - maxEntries);
+      }
+      await this.save();
+    } catch (error) {
+      console.warn("[Summarize] Failed to record summary history:", error);
+    }
+  }
+
+  /**
+   * Entries matching the filter, newest first
+   */
+  async search(filter: HistoryFilter = {}): Promise<SummaryHistoryEntry[]> {
+    const terms = (filter.query ?? "").toLowerCase().split(/\s+/).filter(Boolean);
+
+    return (await this.load())
+      .filter((entry) => filter.source === undefined || getHistorySource(entry) === filter.source)
+      .filter((entry) => !filter.model || entry.model === filter.model)
+      .filter((entry) => {
+        if (terms.length === 0) return true;
+        const text = [entry.title, entry.url, entry.notePath, entry.model, entry.preset, entry.content]
+          .join("\n")
+          .toLowerCase();
+        return terms.every((term) => text.includes(term));
+      })
+      .reverse();
+  }
+
+  /**
+   * Other summaries of the same source, newest first
+   */
+  async getVersions(entry: SummaryHistoryEntry): Promise<SummaryHistoryEntry[]> {
+    const source = getHistorySource(entry);
+    if (!source) return [];
+    return (await this.search({ source })).filter((other) => other.id !== entry.id);
+  }
+
+  /**
+   * Distinct sources (with their latest title) and models, for filtering
+   */
+  async getFacets(): Promise<{ sources: Map<string, string>; models: string[] }> {
+    const sources = new Map<string, string>();
+    const models = new Set<string>();
+    for (const entry of await this.load()) {
+      const source = getHistorySource(entry);
+      sources.set(source, source ? entry.title || source : "");
+      models.add(entry.model);
+    }
+    return { sources, models: Array.from(models).sort() };
+  }
+
+  async delete(id: string): Promise<void> {
+    const entries = await this.load();
+    this.entries = entries.filter((entry) => entry.id !== id);
+    await this.save();
+  }
+
+  /**
+   * Remove all entries
+   */
+  async clear(): Promise<number> {
+    const count = (await this.load()).length;
+    this.entries = [];
+    await this.save();
+    return count;
+  }
+
+  /**
+   * Number of recorded summaries
+   */
+  async size(): Promise<number> {
+    return (await this.load()).length;
+  }
+
+  private async load(): Promise<SummaryHistoryEntry[]> {
+    if (this.entries) return this.entries;
+
+    try {
+      if (await this.app.vault.adapter.exists(this.path)) {
+        const data = JSON.parse(await this.app.vault.adapter.read(this.path)) as HistoryFile;
+        this.entries = data.entries ?? [];
+      } else {
+        this.entries = [];
+      }
+    } catch (error) {
+      console.warn("[Summarize] Failed to read summary history, starting empty:", error);
+      this.entries = [];
+    }
+
+    return this.entries;
+  }
+
+  private async save(): Promise<void> {
+    const data: HistoryFile = { version: 1, entries: this.entries ?? [] };
+    await this.app.vault.adapter.write(this.path, JSON.stringify(data));
+    this.onChange?.();
+  }
+}
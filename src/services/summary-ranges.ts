@@ -0,0 +1,123 @@
+import { Editor } from "obsidian";
+import { RangeSet, RangeValue, StateEffect, StateField, Transaction } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
+
+/**
+ * Where an inserted summary currently is in the document
+ */
+export interface SummaryRange {
+  id: string;
+  from: number;
+  to: number;
+}
+
+/**
+ * Marks the text of one inserted summary. Text typed directly before or after
+ * it is not part of it, and the range disappears once its text is deleted.
+ */
+class SummaryMarker extends RangeValue {
+  startSide = 1;
+  endSide = -1;
+
+  constructor(readonly id: string) {
+    super();
+  }
+
+  eq(other: RangeValue): boolean {
+    return other instanceof SummaryMarker && other.id === this.id;
+  }
+}
+
+const addSummaryRange = StateEffect.define<SummaryRange>({
+  map: (range, changes) => ({
+    id: range.id,
+    from: changes.mapPos(range.from, 1),
+    to: changes.mapPos(range.to, -1),
+  }),
+});
+
+/**
+ * Editor extension that keeps track of inserted summaries as the document changes
+ */
+export const summaryRangeField = StateField.define<RangeSet<SummaryMarker>>({
+  create: () => RangeSet.empty,
+  update(ranges, tr) {
+    ranges = ranges.map(tr.changes);
+    for (const effect of tr.effects) {
+      if (!effect.is(addSummaryRange) || effect.value.from >= effect.value.to) continue;
+      const { id, from, to } = effect.value;
+      ranges = ranges.update({
+        filter: (_from, _to, marker) => marker.id !== id,
+        add: [new SummaryMarker(id).range(from, to)],
+      });
+    }
+    return ranges;
+  },
+});
+
+/**
+ * The CodeMirror view behind an Obsidian editor, or null for editors without one
+ */
+export function getEditorView(editor: Editor): EditorView | null {
+  // Obsidian exposes the CodeMirror 6 view of a Markdown editor as `cm`
+  const view = (editor as Editor & { cm?: unknown }).cm;
+  return view instanceof EditorView ? view : null;
+}
+
+/**
+ * The tracked summary at a document offset, if any
+ */
+export function findSummaryRangeAt(view: EditorView, pos: number): SummaryRange | null {
+  let found: SummaryRange | null = null;
+  view.state.field(summaryRangeField, false)?.between(pos, pos, (from, to, marker) => {
+    found = { id: marker.id, from, to };
+    return false;
+  });
+  return found;
+}
+
+/**
+ * Where the summary with this id is now, or null if it was deleted
+ */
+export function getSummaryRange(view: EditorView, id: string): SummaryRange | null {
+  const cursor = view.state.field(summaryRangeField, false)?.iter();
+  for (; cursor?.value; cursor.next()) {
+    if (cursor.value.id === id) return { id, from: cursor.from, to: cursor.to };
+  }
+  return null;
+}
+
+/**
+ * Replace text without recording an undo step, e.g. for streamed chunks
+ * that are committed as a whole once the summary is complete
+ */
+export function replaceWithoutHistory(view: EditorView, from: number, to: number, insert: string): void {
+  view.dispatch({
+    changes: { from, to, insert },
+    annotations: Transaction.addToHistory.of(false),
+  });
+}
+
+/**
+ * Replace text as a single undo step and, if a range is given, track it as a summary
+ */
+export function replaceAsSummary(
+  view: EditorView,
+  from: number,
+  to: number,
+  insert: string,
+  range?: SummaryRange
+): void {
+  view.dispatch({
+    changes: { from, to, insert },
+    effects: range ? addSummaryRange.of(range) : [],
+    userEvent: "input.summarize",
+  });
+}
+
+/**
+ * Start tracking text that is already in the document as a summary
+ */
+export function trackSummaryRange(view: EditorView, range: SummaryRange): void {
+  view.dispatch({ effects: addSummaryRange.of(range) });
+}
@@ -0,0 +1,90 @@
+export interface DiffPart {
+  type: "equal" | "insert" | "delete";
+  text: string;
+}
+
+/**
+ * Above this many LCS cells, texts are compared line by line instead of word
+ * by word, and not at all if the line diff is still this large
+ */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Word-level diff of two texts (runs of whitespace are tokens of their own).
+ * Falls back to a line diff for very long texts to bound memory use, and
+ * returns null when even that would be too large.
+ */
+export function diffWords(before: string, after: string): DiffPart[] | null {
+  let a = tokenize(before, /\S+|\s+/g);
+  let b = tokenize(after, /\S+|\s+/g);
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    a = tokenize(before, /[^\n]*\n|[^\n]+/g);
+    b = tokenize(after, /[^\n]*\n|[^\n]+/g);
+    if (a.length * b.length > MAX_DIFF_CELLS) return null;
+  }
+  return diffTokens(a, b);
+}
+
+function tokenize(text: string, pattern: RegExp): string[] {
+  return text.match(pattern) ?? [];
+}
+
+/**
+ * Longest-common-subsequence diff, with runs of the same type merged
+ */
+function diffTokens(a: string[], b: string[]): DiffPart[] {
+  // Common prefix and suffix are trimmed first; summaries often share them
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  // lengths[i * (m + 1) + j] = LCS length of a[start + i..] and b[start + j..]
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] =
+        a[start + i] === b[start + j]
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart["type"], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ type, text });
+    }
+  };
+
+  a.slice(0, start).forEach((token) => push("equal", token));
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[start + i] === b[start + j]) {
+      push("equal", a[start + i]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+      push("delete", a[start + i]);
+      i++;
+    } else {
+      push("insert", b[start + j]);
+      j++;
+    }
+  }
+  for (; i < n; i++) push("delete", a[start + i]);
+  for (; j < m; j++) push("insert", b[start + j]);
+  a.slice(endA).forEach((token) => push("equal", token));
+
+  return parts;
+}
@@ -0,0 +1,127 @@
+import { App, moment } from "obsidian";
+import { UsageRecord } from "../types";
+
+interface LedgerFile {
+  version: 1;
+  records: UsageRecord[];
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** Sum of known costs in USD */
+  cost: number;
+  /** Calls whose cost could not be computed (no pricing for the model) */
+  unpricedCalls: number;
+}
+
+/** Records older than this are dropped */
+const RETENTION_DAYS = 400;
+
+/**
+ * Persistent ledger of every LLM call (model, tokens, cost, source type),
+ * stored as JSON in the plugin folder
+ */
+export class UsageLedger {
+  private app: App;
+  private path: string;
+  private records: UsageRecord[] | null = null;
+
+  constructor(app: App, path: string) {
+    this.app = app;
+    this.path = path;
+  }
+
+  /**
+   * Append a call to the ledger
+   */
+  async record(entry: Omit<UsageRecord, "timestamp">): Promise<void> {
+    const records = await this.load();
+    records.push({ ...entry, timestamp: Date.now() });
+
+    const cutoff = moment().subtract(RETENTION_DAYS, "days").valueOf();
+    if (records[0].timestamp < cutoff) {
+      this.records = records.filter((r) => r.timestamp >= cutoff);
+    }
+    await this.save();
+  }
+
+  /**
+   * All records since the given time (ms)
+   */
+  async getRecords(since = 0): Promise<UsageRecord[]> {
+    return (await this.load()).filter((r) => r.timestamp >= since);
+  }
+
+  /**
+   * Totals for records since the given time (ms)
+   */
+  async getTotals(since = 0): Promise<UsageTotals> {
+    return UsageLedger.sum(await this.getRecords(since));
+  }
+
+  /**
+   * Known spend in USD for the current calendar month
+   */
+  async getMonthCost(): Promise<number> {
+    return (await this.getTotals(moment().startOf("month").valueOf())).cost;
+  }
+
+  /**
+   * Remove all records
+   */
+  async clear(): Promise<number> {
+    const count = (await this.load()).length;
+    this.records = [];
+    await this.save();
+    return count;
+  }
+
+  /**
+   * Sum a list of records
+   */
+  static sum(records: UsageRecord[]): UsageTotals {
+    const totals: UsageTotals = {
+      calls: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      cost: 0,
+      unpricedCalls: 0,
+    };
+    for (const r of records) {
+      totals.calls += 1;
+      totals.promptTokens += r.promptTokens;
+      totals.completionTokens += r.completionTokens;
+      if (r.cost === null) {
+        totals.unpricedCalls += 1;
+      } else {
+        totals.cost += r.cost;
+      }
+    }
+    return totals;
+  }
+
+  private async load(): Promise<UsageRecord[]> {
+    if (this.records) return this.records;
+
+    try {
+      if (await this.app.vault.adapter.exists(this.path)) {
+        const data = JSON.parse(await this.app.vault.adapter.read(this.path)) as LedgerFile;
+        this.records = data.records ?? [];
+      } else {
+        this.records = [];
+      }
+    } catch (error) {
+      console.warn("[Summarize] Failed to read usage ledger, starting empty:", error);
+      this.records = [];
+    }
+
+    return this.records;
+  }
+
+  private async save(): Promise<void> {
+    const data: LedgerFile = { version: 1, records: this.records ?? [] };
+    await this.app.vault.adapter.write(this.path, JSON.stringify(data));
+  }
+}
@@ -1,8 +1,61 @@
-import { App, PluginSettingTab, Setting, Notice, requestUrl, RequestUrlResponse } from "obsidian";
+import { App, PluginSettingTab, Setting, Notice, requestUrl, RequestUrlResponse, moment } from "obsidian";
 import type SummarizePlugin from "./main";
-import { SummarizeSettings, OpenRouterModel, SummaryLength, InsertBehavior, OpenRouterBenchmarks, DEFAULT_PROMPT } from "./types";
-
-type SettingsTabId = "general" | "models" | "freerank";
+import { UsageLedger } from "./services/usage-ledger";
+import { renderPromptTemplate, validatePromptTemplate } from "./services/prompt-template";
+import {
+  SummarizeSettings,
+  OpenRouterModel,
+  SummaryLength,
+  InsertBehavior,
+  BulkSummaryTarget,
+  BudgetAction,
+  CitationMode,
+  UsageRecord,
+  OpenRouterBenchmarks,
+  DEFAULT_PROMPT,
+  LENGTH_WORD_COUNTS,
+  SAMPLE_EXTRACTED_CONTENT,
+  SAMPLE_PROMPT_CONTEXT,
+  ProviderConfig,
+  ProviderType,
+  SummaryPreset,
+  FallbackErrorClass,
+  FALLBACK_ERROR_LABELS,
+} from "./types";
+
+type SettingsTabId = "general" | "presets" | "providers" | "models" | "freerank" | "usage";
+
+/** What each fallback error class covers, shown in the Free Rank tab */
+const FALLBACK_ERROR_DESCRIPTIONS: Record<FallbackErrorClass, string> = {
+  "rate-limit": "HTTP 429 and rate limit messages",
+  server: "HTTP 5xx, bad gateway and overloaded providers",
+  timeout: "Provider timeouts and failed connections",
+  empty: "The model returned no text",
+  refusal: "Moderation flags and content filter blocks",
+};
+
+/** Starting points for the "Add provider" buttons */
+const PROVIDER_PRESETS: { label: string; config: ProviderConfig }[] = [
+  {
+    label: "OpenAI-compatible",
+    config: { id: "openai", name: "OpenAI", type: "openai-compatible", baseUrl: "https://api.openai.com/v1", apiKey: "", enabled: true },
+  },
+  {
+    label: "Anthropic",
+    config: { id: "anthropic", name: "Anthropic", type: "anthropic", baseUrl: "https://api.anthropic.com", apiKey: "", enabled: true },
+  },
+  {
+    label: "Ollama",
+    config: { id: "ollama", name: "Ollama", type: "openai-compatible", baseUrl: "http://localhost:11434/v1", apiKey: "", enabled: true },
+  },
+  {
+    label: "llama.cpp",
+    config: { id: "llamacpp", name: "llama.cpp", type: "openai-compatible", baseUrl: "http://localhost:8080/v1", apiKey: "", enabled: true },
+  },
+];
+
+/** Model prefixes that can't be used as provider IDs */
+const RESERVED_PROVIDER_IDS = ["openrouter", "auto-free"];
 type SortKey = "name" | "provider" | "context" | "cost" | "arena" | "openllm" | "value";
 type SortDirection = "asc" | "desc";
 
@@ -38,8 +91,11 @@ export class SummarizeSettingTab extends PluginSettingTab {
     // Tab navigation
     const tabs: { id: SettingsTabId; label: string }[] = [
       { id: "general", label: "General" },
+      { id: "presets", label: "Presets" },
+      { id: "providers", label: "Providers" },
       { id: "models", label: "Models" },
       { id: "freerank", label: "Free Rank" },
+      { id: "usage", label: "Usage" },
     ];
 
     const nav = containerEl.createDiv({ cls: "summarize-nav" });
@@ -60,12 +116,21 @@ export class SummarizeSettingTab extends PluginSettingTab {
       case "general":
         this.renderGeneralTab(content);
         break;
+      case "presets":
+        this.renderPresetsTab(content);
+        break;
+      case "providers":
+        this.renderProvidersTab(content);
+        break;
       case "models":
         this.renderModelsTab(content);
         break;
       case "freerank":
         this.renderFreeRankTab(content);
         break;
+      case "usage":
+        this.renderUsageTab(content);
+        break;
     }
   }
 
@@ -202,6 +267,24 @@ export class SummarizeSettingTab extends PluginSettingTab {
         color: var(--text-muted);
         cursor: grab;
       }
+      .summarize-input-error {
+        border-color: var(--text-error) !important;
+      }
+      .summarize-prompt-problems {
+        color: var(--text-error);
+        font-size: 0.85em;
+        margin: 4px 0;
+      }
+      .summarize-prompt-preview {
+        max-height: 300px;
+        overflow: auto;
+        white-space: pre-wrap;
+        font-size: 0.8em;
+        padding: 8px;
+        border: 1px solid var(--background-modifier-border);
+        border-radius: 4px;
+        background: var(--background-secondary);
+      }
       .summarize-rank-number {
         font-weight: bold;
         margin-right: 8px;
@@ -233,7 +316,7 @@ export class SummarizeSettingTab extends PluginSettingTab {
     new Setting(containerEl)
       .setName("Default Model")
       .setDesc(
-        'Model to use for summarization. Use "auto-free" to automatically use the highest-ranked free model.'
+        'Model to use for summarization. Use "provider:model" for models from the Providers tab (e.g. "ollama:llama3.2"), or "auto-free" to automatically use the highest-ranked free model.'
       )
       .addText((text) =>
         text
@@ -269,13 +352,281 @@ export class SummarizeSettingTab extends PluginSettingTab {
           .addOption("below", "Insert below cursor")
           .addOption("replace", "Replace selection")
           .addOption("clipboard", "Copy to clipboard")
+          .addOption("new-note", "Create new note and link it")
           .setValue(this.plugin.settings.insertBehavior)
           .onChange(async (value) => {
             this.plugin.settings.insertBehavior = value as InsertBehavior;
             await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    if (this.plugin.settings.insertBehavior === "new-note") {
+      new Setting(containerEl)
+        .setName("Summary Note Folder")
+        .setDesc("Folder where summary notes are created")
+        .addText((text) =>
+          text
+            .setPlaceholder("Summaries")
+            .setValue(this.plugin.settings.newNoteFolder)
+            .onChange(async (value) => {
+              this.plugin.settings.newNoteFolder = value;
+              await this.plugin.saveSettings();
+            })
+        );
+
+      new Setting(containerEl)
+        .setName("Summary Note Filename")
+        .setDesc("Template with {{date}}, {{time}} and {{title}}")
+        .addText((text) =>
+          text
+            .setPlaceholder("{{date}} {{title}}")
+            .setValue(this.plugin.settings.newNoteFilename)
+            .onChange(async (value) => {
+              this.plugin.settings.newNoteFilename = value;
+              await this.plugin.saveSettings();
+            })
+        );
+
+      new Setting(containerEl)
+        .setName("Summary Note Tags")
+        .setDesc("Comma-separated tags added to the note's frontmatter")
+        .addText((text) =>
+          text
+            .setPlaceholder("summary")
+            .setValue(this.plugin.settings.newNoteTags)
+            .onChange(async (value) => {
+              this.plugin.settings.newNoteTags = value;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    new Setting(containerEl)
+      .setName("Link YouTube Timestamps")
+      .setDesc("Start summary bullets of YouTube videos with timestamps that link to that point in the video")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.youtubeTimestampLinks)
+          .onChange(async (value) => {
+            this.plugin.settings.youtubeTimestampLinks = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Source Citations")
+      .setDesc("Tag each summary bullet with the source passages that support it. Web page links scroll to the passage; citations that match no passage are flagged.")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("off", "Off")
+          .addOption("footnotes", "Footnotes with quotes")
+          .addOption("links", "Inline quote links")
+          .setValue(this.plugin.settings.citationMode)
+          .onChange(async (value) => {
+            this.plugin.settings.citationMode = value as CitationMode;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Batch Concurrency")
+      .setDesc("How many links \"Summarize all links in note\" summarizes at the same time")
+      .addSlider((slider) =>
+        slider
+          .setLimits(1, 10, 1)
+          .setValue(this.plugin.settings.batchConcurrency)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.batchConcurrency = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Max Parallel Requests")
+      .setDesc("Model requests running at the same time across all commands and plugins using the API. Further requests wait in a queue, editor commands ahead of API and bulk jobs.")
+      .addSlider((slider) =>
+        slider
+          .setLimits(1, 10, 1)
+          .setValue(this.plugin.settings.maxConcurrentRequests)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.maxConcurrentRequests = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Bulk Summary Target")
+      .setDesc("Where folder and tag summarization writes each note's summary")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("frontmatter", "Frontmatter property")
+          .addOption("section", "\"## Summary\" section")
+          .setValue(this.plugin.settings.bulkSummaryTarget)
+          .onChange(async (value) => {
+            this.plugin.settings.bulkSummaryTarget = value as BulkSummaryTarget;
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    if (this.plugin.settings.bulkSummaryTarget === "frontmatter") {
+      new Setting(containerEl)
+        .setName("Bulk Summary Property")
+        .setDesc("Frontmatter property that receives the summary")
+        .addText((text) =>
+          text
+            .setPlaceholder("summary")
+            .setValue(this.plugin.settings.bulkSummaryProperty)
+            .onChange(async (value) => {
+              this.plugin.settings.bulkSummaryProperty = value;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    containerEl.createEl("h3", { text: "Note Summaries" });
+
+    new Setting(containerEl)
+      .setName("Resolve Embeds")
+      .setDesc("Expand ![[embeds]] (including heading and block references) into their content when summarizing a note")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.noteResolveEmbeds).onChange(async (value) => {
+          this.plugin.settings.noteResolveEmbeds = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Include Linked Notes")
+      .setDesc("Append the content of notes linked with [[wikilinks]] (one hop) as context")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.noteIncludeLinkedNotes).onChange(async (value) => {
+          this.plugin.settings.noteIncludeLinkedNotes = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Note Context Budget")
+      .setDesc("Maximum tokens of embedded and linked content added to a note. The note itself is never cut. 0 = unlimited.")
+      .addText((text) =>
+        text
+          .setPlaceholder("32000")
+          .setValue(String(this.plugin.settings.noteContextTokens))
+          .onChange(async (value) => {
+            const tokens = parseInt(value, 10);
+            if (Number.isFinite(tokens) && tokens >= 0) {
+              this.plugin.settings.noteContextTokens = tokens;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
+    containerEl.createEl("h3", { text: "Summary Cache" });
+
+    new Setting(containerEl)
+      .setName("Cache Summaries")
+      .setDesc("Reuse summaries of the same URL or text with the same model, length and prompt instead of calling the model again")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.cacheEnabled)
+          .onChange(async (value) => {
+            this.plugin.settings.cacheEnabled = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Cache Lifetime (days)")
+      .setDesc("Cached summaries older than this are discarded. 0 = never expire.")
+      .addText((text) =>
+        text
+          .setPlaceholder("30")
+          .setValue(String(this.plugin.settings.cacheTtlDays))
+          .onChange(async (value) => {
+            const days = parseInt(value, 10);
+            if (Number.isFinite(days) && days >= 0) {
+              this.plugin.settings.cacheTtlDays = days;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Maximum Cached Summaries")
+      .setDesc("Oldest entries are removed beyond this limit. 0 = unlimited.")
+      .addText((text) =>
+        text
+          .setPlaceholder("500")
+          .setValue(String(this.plugin.settings.cacheMaxEntries))
+          .onChange(async (value) => {
+            const max = parseInt(value, 10);
+            if (Number.isFinite(max) && max >= 0) {
+              this.plugin.settings.cacheMaxEntries = max;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
+    const clearCacheSetting = new Setting(containerEl)
+      .setName("Clear Cache")
+      .addButton((btn) =>
+        btn.setButtonText("Clear summary cache").onClick(async () => {
+          const count = await this.plugin.summaryCache.clear();
+          new Notice(`Cleared ${count} cached ${count === 1 ? "summary" : "summaries"}`);
+          clearCacheSetting.setDesc("0 cached summaries");
+        })
+      );
+    this.plugin.summaryCache.size().then((count) => {
+      clearCacheSetting.setDesc(`${count} cached ${count === 1 ? "summary" : "summaries"}`);
+    });
+
+    containerEl.createEl("h3", { text: "Summary History" });
+
+    new Setting(containerEl)
+      .setName("Record History")
+      .setDesc("Keep every generated summary for searching, re-inserting and comparing in the summary history view")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.historyEnabled)
+          .onChange(async (value) => {
+            this.plugin.settings.historyEnabled = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Maximum History Entries")
+      .setDesc("Oldest summaries are removed beyond this limit. 0 = unlimited.")
+      .addText((text) =>
+        text
+          .setPlaceholder("1000")
+          .setValue(String(this.plugin.settings.historyMaxEntries))
+          .onChange(async (value) => {
+            const max = parseInt(value, 10);
+            if (Number.isFinite(max) && max >= 0) {
+              this.plugin.settings.historyMaxEntries = max;
+              await this.plugin.saveSettings();
+            }
           })
       );
 
+    const clearHistorySetting = new Setting(containerEl)
+      .setName("Clear History")
+      .addButton((btn) =>
+        btn.setButtonText("Clear summary history").onClick(async () => {
+          const count = await this.plugin.summaryHistory.clear();
+          new Notice(`Removed ${count} ${count === 1 ? "summary" : "summaries"} from the history`);
+          clearHistorySetting.setDesc("0 summaries");
+        })
+      );
+    this.plugin.summaryHistory.size().then((count) => {
+      clearHistorySetting.setDesc(`${count} ${count === 1 ? "summary" : "summaries"}`);
+    });
+
     containerEl.createEl("h3", { text: "Custom Prompt" });
 
     const promptDesc = containerEl.createEl("p", {
@@ -285,6 +636,10 @@ export class SummarizeSettingTab extends PluginSettingTab {
       Customize the summarization prompt. Use placeholders:<br>
       <code>{{content}}</code> - The content to summarize<br>
       <code>{{wordCount}}</code> - Target word count (based on length setting)<br>
+      <code>{{title}}</code>, <code>{{url}}</code>, <code>{{domain}}</code>, <code>{{sourceType}}</code> - The summarized source<br>
+      <code>{{noteTitle}}</code>, <code>{{frontmatter.key}}</code> - The active note<br>
+      <code>{{date}}</code>, <code>{{language}}</code> - Today's date and the requested output language<br>
+      <code>{{#if url}}...{{else}}...{{/if}}</code> - Include text only when a variable is set<br>
       Leave empty to use the default prompt.
     `;
 
@@ -299,6 +654,7 @@ export class SummarizeSettingTab extends PluginSettingTab {
         .onChange(async (value) => {
           this.plugin.settings.customPrompt = value;
           await this.plugin.saveSettings();
+          updatePreview();
         });
       text.inputEl.rows = 12;
       text.inputEl.style.width = "100%";
@@ -306,6 +662,17 @@ export class SummarizeSettingTab extends PluginSettingTab {
       text.inputEl.style.fontSize = "0.85em";
     });
 
+    const problemsEl = containerEl.createDiv({ cls: "summarize-prompt-problems" });
+    const previewDetails = containerEl.createEl("details");
+    previewDetails.createEl("summary", { text: "Preview with a sample article" });
+    const previewEl = previewDetails.createEl("pre", { cls: "summarize-prompt-preview" });
+    const updatePreview = () => {
+      const template = this.plugin.settings.customPrompt || DEFAULT_PROMPT;
+      this.renderPromptProblems(problemsEl, template);
+      previewEl.setText(this.renderPromptPreview(template));
+    };
+    updatePreview();
+
     const resetBtn = containerEl.createEl("button", { text: "Reset to default" });
     resetBtn.style.marginTop = "8px";
     resetBtn.addEventListener("click", async () => {
@@ -316,6 +683,272 @@ export class SummarizeSettingTab extends PluginSettingTab {
     });
   }
 
+  private renderPresetsTab(containerEl: HTMLElement): void {
+    containerEl.createEl("p", {
+      text: 'Presets bundle a prompt, model, length and output behavior. Each preset gets its own command ("Summarize with preset: ...") that can be bound to a hotkey, and can be picked with "Summarize with preset..." or passed as the "preset" option to the API.',
+      cls: "setting-item-description",
+    });
+
+    const toolbar = containerEl.createDiv({ cls: "summarize-toolbar" });
+    const addBtn = toolbar.createEl("button", { text: "Add preset" });
+    addBtn.addEventListener("click", async () => {
+      this.plugin.settings.presets = [
+        ...this.plugin.settings.presets,
+        {
+          id: this.getUniquePresetId("preset"),
+          name: "New preset",
+          prompt: "",
+          model: "",
+          length: this.plugin.settings.defaultLength,
+          temperature: null,
+          insertBehavior: "default",
+        },
+      ];
+      await this.plugin.saveSettings();
+      this.display();
+    });
+
+    const presets = this.plugin.settings.presets;
+    if (presets.length === 0) {
+      containerEl.createEl("p", {
+        text: "No presets configured.",
+        cls: "summarize-meta",
+      });
+      return;
+    }
+
+    presets.forEach((preset, index) => {
+      const update = async (changes: Partial<SummaryPreset>) => {
+        const next = [...this.plugin.settings.presets];
+        next[index] = { ...next[index], ...changes };
+        this.plugin.settings.presets = next;
+        await this.plugin.saveSettings();
+      };
+
+      containerEl.createEl("h3", { text: preset.name || preset.id });
+
+      new Setting(containerEl)
+        .setName("Name")
+        .setDesc(`ID: ${preset.id}`)
+        .addText((text) =>
+          text.setValue(preset.name).onChange(async (value) => {
+            await update({ name: value });
+          })
+        )
+        .addButton((btn) =>
+          btn
+            .setButtonText("Remove")
+            .setWarning()
+            .onClick(async () => {
+              this.plugin.settings.presets = this.plugin.settings.presets.filter(
+                (_, i) => i !== index
+              );
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+
+      new Setting(containerEl)
+        .setName("Model")
+        .setDesc('Model ID or "provider:model". Leave empty for the default model.')
+        .addText((text) =>
+          text
+            .setPlaceholder(this.plugin.settings.defaultModel)
+            .setValue(preset.model)
+            .onChange(async (value) => {
+              await update({ model: value.trim() });
+            })
+        );
+
+      new Setting(containerEl)
+        .setName("Length")
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOption("brief", "Brief (~50 words)")
+            .addOption("short", "Short (~100 words)")
+            .addOption("medium", "Medium (~250 words)")
+            .addOption("long", "Long (~500 words)")
+            .setValue(preset.length)
+            .onChange(async (value) => {
+              await update({ length: value as SummaryLength });
+            })
+        );
+
+      new Setting(containerEl)
+        .setName("Temperature")
+        .setDesc("0 to 2. Leave empty for the provider default.")
+        .addText((text) =>
+          text
+            .setPlaceholder("default")
+            .setValue(preset.temperature === null ? "" : String(preset.temperature))
+            .onChange(async (value) => {
+              const trimmed = value.trim();
+              const temperature = trimmed === "" ? null : Number(trimmed);
+              const invalid =
+                temperature !== null && (isNaN(temperature) || temperature < 0 || temperature > 2);
+              text.inputEl.toggleClass("summarize-input-error", invalid);
+              if (invalid) return;
+              await update({ temperature });
+            })
+        );
+
+      new Setting(containerEl)
+        .setName("Output")
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOption("default", "Use global insert behavior")
+            .addOption("below", "Insert below cursor")
+            .addOption("replace", "Replace selection")
+            .addOption("clipboard", "Copy to clipboard")
+            .addOption("new-note", "Create new note and link it")
+            .setValue(preset.insertBehavior)
+            .onChange(async (value) => {
+              await update({ insertBehavior: value as SummaryPreset["insertBehavior"] });
+            })
+        );
+
+      const promptSetting = new Setting(containerEl)
+        .setName("Prompt")
+        .setDesc("Same variables as the global prompt template. Leave empty for the global prompt.")
+        .setClass("summarize-prompt-setting");
+      const problemsEl = containerEl.createDiv({ cls: "summarize-prompt-problems" });
+      this.renderPromptProblems(problemsEl, preset.prompt);
+      promptSetting.addTextArea((text) => {
+        text
+          .setPlaceholder(this.plugin.settings.customPrompt || DEFAULT_PROMPT)
+          .setValue(preset.prompt)
+          .onChange(async (value) => {
+            this.renderPromptProblems(problemsEl, value);
+            await update({ prompt: value });
+          });
+        text.inputEl.rows = 6;
+        text.inputEl.style.width = "100%";
+        text.inputEl.style.fontFamily = "monospace";
+        text.inputEl.style.fontSize = "0.85em";
+      });
+    });
+  }
+
+  private renderProvidersTab(containerEl: HTMLElement): void {
+    containerEl.createEl("p", {
+      text: 'OpenRouter is always available using the API key from the General tab. Add other providers here and address their models as "provider:model", e.g. "ollama:llama3.2" or "anthropic:claude-sonnet-4-5".',
+      cls: "setting-item-description",
+    });
+
+    const toolbar = containerEl.createDiv({ cls: "summarize-toolbar" });
+    for (const preset of PROVIDER_PRESETS) {
+      const addBtn = toolbar.createEl("button", { text: `Add ${preset.label}` });
+      addBtn.addEventListener("click", async () => {
+        this.plugin.settings.providers = [
+          ...this.plugin.settings.providers,
+          { ...preset.config, id: this.getUniqueProviderId(preset.config.id) },
+        ];
+        await this.plugin.saveSettings();
+        this.display();
+      });
+    }
+
+    const providers = this.plugin.settings.providers;
+    if (providers.length === 0) {
+      containerEl.createEl("p", {
+        text: "No additional providers configured.",
+        cls: "summarize-meta",
+      });
+      return;
+    }
+
+    providers.forEach((provider, index) => {
+      const update = async (changes: Partial<ProviderConfig>) => {
+        const next = [...this.plugin.settings.providers];
+        next[index] = { ...next[index], ...changes };
+        this.plugin.settings.providers = next;
+        await this.plugin.saveSettings();
+      };
+
+      containerEl.createEl("h3", { text: provider.name || provider.id });
+
+      new Setting(containerEl)
+        .setName("Enabled")
+        .addToggle((toggle) =>
+          toggle.setValue(provider.enabled).onChange(async (value) => {
+            await update({ enabled: value });
+          })
+        )
+        .addButton((btn) =>
+          btn
+            .setButtonText("Remove")
+            .setWarning()
+            .onClick(async () => {
+              this.plugin.settings.providers = this.plugin.settings.providers.filter(
+                (_, i) => i !== index
+              );
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+
+      new Setting(containerEl)
+        .setName("Name")
+        .addText((text) =>
+          text.setValue(provider.name).onChange(async (value) => {
+            await update({ name: value });
+          })
+        );
+
+      new Setting(containerEl)
+        .setName("ID")
+        .setDesc(`Model prefix, e.g. "${provider.id}:model-name"`)
+        .addText((text) =>
+          text.setValue(provider.id).onChange(async (value) => {
+            const id = value.trim();
+            const error = this.validateProviderId(id, index);
+            text.inputEl.toggleClass("summarize-input-error", Boolean(error));
+            if (error) {
+              text.inputEl.title = error;
+              return;
+            }
+            text.inputEl.title = "";
+            await update({ id });
+          })
+        );
+
+      new Setting(containerEl)
+        .setName("Type")
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOption("openai-compatible", "OpenAI-compatible")
+            .addOption("anthropic", "Anthropic Messages")
+            .setValue(provider.type)
+            .onChange(async (value) => {
+              await update({ type: value as ProviderType });
+            })
+        );
+
+      new Setting(containerEl)
+        .setName("Base URL")
+        .setDesc(
+          provider.type === "anthropic"
+            ? "Without /v1/messages"
+            : "Up to and including /v1 (requests go to /chat/completions)"
+        )
+        .addText((text) =>
+          text.setValue(provider.baseUrl).onChange(async (value) => {
+            await update({ baseUrl: value.trim() });
+          })
+        );
+
+      new Setting(containerEl)
+        .setName("API Key")
+        .setDesc("Leave empty for local servers that don't require one")
+        .addText((text) => {
+          text.inputEl.type = "password";
+          text.setValue(provider.apiKey).onChange(async (value) => {
+            await update({ apiKey: value });
+          });
+        });
+    });
+  }
+
   private renderModelsTab(containerEl: HTMLElement): void {
     containerEl.createEl("p", {
       text: "Browse and select OpenRouter models. Use the table to compare and select models.",
@@ -595,11 +1228,173 @@ export class SummarizeSettingTab extends PluginSettingTab {
     }
   }
 
+  private renderUsageTab(containerEl: HTMLElement): void {
+    containerEl.createEl("h3", { text: "Monthly Budget" });
+
+    new Setting(containerEl)
+      .setName("Monthly Budget (USD)")
+      .setDesc("Spend limit for paid OpenRouter models per calendar month. 0 = no budget.")
+      .addText((text) =>
+        text
+          .setPlaceholder("0")
+          .setValue(String(this.plugin.settings.monthlyBudget))
+          .onChange(async (value) => {
+            const budget = parseFloat(value);
+            if (Number.isFinite(budget) && budget >= 0) {
+              this.plugin.settings.monthlyBudget = budget;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("When Budget Is Reached")
+      .setDesc("What happens before a paid call once this month's spend reaches the budget")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("warn", "Warn and continue")
+          .addOption("block", "Block paid calls")
+          .setValue(this.plugin.settings.budgetAction)
+          .onChange(async (value) => {
+            this.plugin.settings.budgetAction = value as BudgetAction;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    containerEl.createEl("p", {
+      text: "Costs are computed from cached OpenRouter pricing. Calls to other providers are counted but not priced.",
+      cls: "summarize-meta",
+    });
+
+    const usageEl = containerEl.createDiv();
+    usageEl.createEl("p", { text: "Loading usage...", cls: "summarize-meta" });
+
+    this.plugin.usageLedger.getRecords().then((records) => {
+      usageEl.empty();
+      this.renderUsageSummary(usageEl, records);
+    });
+  }
+
+  private renderUsageSummary(containerEl: HTMLElement, records: UsageRecord[]): void {
+    const todayStart = moment().startOf("day").valueOf();
+    const monthStart = moment().startOf("month").valueOf();
+    const thisMonth = records.filter((r) => r.timestamp >= monthStart);
+
+    const periods: [string, UsageRecord[]][] = [
+      ["Today", records.filter((r) => r.timestamp >= todayStart)],
+      ["This month", thisMonth],
+      ["All time", records],
+    ];
+    containerEl.createEl("h3", { text: "Totals" });
+    this.renderUsageTable(
+      containerEl,
+      ["Period", "Calls", "Prompt tokens", "Completion tokens", "Cost"],
+      periods.map(([label, group]) => [label, ...this.formatUsageTotals(group)])
+    );
+
+    containerEl.createEl("h3", { text: "This Month by Model" });
+    const byModel = this.groupUsage(thisMonth, (r) => r.model);
+    this.renderUsageTable(
+      containerEl,
+      ["Model", "Calls", "Prompt tokens", "Completion tokens", "Cost"],
+      Array.from(byModel.entries())
+        .sort((a, b) => UsageLedger.sum(b[1]).cost - UsageLedger.sum(a[1]).cost)
+        .map(([model, group]) => [model, ...this.formatUsageTotals(group)])
+    );
+
+    containerEl.createEl("h3", { text: "Daily (last 30 days)" });
+    const since = moment().subtract(29, "days").startOf("day").valueOf();
+    const byDay = this.groupUsage(
+      records.filter((r) => r.timestamp >= since),
+      (r) => moment(r.timestamp).format("YYYY-MM-DD")
+    );
+    this.renderUsageTable(
+      containerEl,
+      ["Day", "Calls", "Prompt tokens", "Completion tokens", "Cost"],
+      Array.from(byDay.entries())
+        .sort((a, b) => b[0].localeCompare(a[0]))
+        .map(([day, group]) => [day, ...this.formatUsageTotals(group)])
+    );
+
+    containerEl.createEl("h3", { text: "Monthly" });
+    const byMonth = this.groupUsage(records, (r) => moment(r.timestamp).format("YYYY-MM"));
+    this.renderUsageTable(
+      containerEl,
+      ["Month", "Calls", "Prompt tokens", "Completion tokens", "Cost"],
+      Array.from(byMonth.entries())
+        .sort((a, b) => b[0].localeCompare(a[0]))
+        .map(([month, group]) => [month, ...this.formatUsageTotals(group)])
+    );
+
+    new Setting(containerEl)
+      .setName("Clear Usage History")
+      .setDesc(`${records.length} recorded ${records.length === 1 ? "call" : "calls"}`)
+      .addButton((btn) =>
+        btn.setButtonText("Clear").onClick(async () => {
+          const count = await this.plugin.usageLedger.clear();
+          new Notice(`Cleared ${count} usage ${count === 1 ? "record" : "records"}`);
+          this.display();
+        })
+      );
+  }
+
+  private groupUsage(records: UsageRecord[], keyOf: (r: UsageRecord) => string): Map<string, UsageRecord[]> {
+    const groups = new Map<string, UsageRecord[]>();
+    for (const record of records) {
+      const key = keyOf(record);
+      groups.set(key, [...(groups.get(key) ?? []), record]);
+    }
+    return groups;
+  }
+
+  /**
+   * Calls, prompt tokens, completion tokens and cost columns for a group of records
+   */
+  private formatUsageTotals(records: UsageRecord[]): string[] {
+    const totals = UsageLedger.sum(records);
+    const cost =
+      totals.unpricedCalls === totals.calls && totals.calls > 0
+        ? "—"
+        : `$${totals.cost.toFixed(4)}${totals.unpricedCalls > 0 ? "*" : ""}`;
+    return [
+      String(totals.calls),
+      totals.promptTokens.toLocaleString(),
+      totals.completionTokens.toLocaleString(),
+      cost,
+    ];
+  }
+
+  private renderUsageTable(containerEl: HTMLElement, headers: string[], rows: string[][]): void {
+    if (rows.length === 0) {
+      containerEl.createEl("p", { text: "No usage recorded.", cls: "summarize-meta" });
+      return;
+    }
+
+    const table = containerEl
+      .createDiv({ cls: "summarize-table-wrap" })
+      .createEl("table", { cls: "summarize-table" });
+    const headRow = table.createEl("thead").createEl("tr");
+    headers.forEach((label) => headRow.createEl("th", { text: label }));
+
+    const tbody = table.createEl("tbody");
+    for (const row of rows) {
+      const tr = tbody.createEl("tr");
+      row.forEach((cell) => tr.createEl("td", { text: cell }));
+    }
+
+    if (rows.some((row) => row[row.length - 1].endsWith("*"))) {
+      containerEl.createEl("p", {
+        text: "* Excludes calls to models without known pricing.",
+        cls: "summarize-meta",
+      });
+    }
+  }
+
   private renderFreeRankTab(containerEl: HTMLElement): void {
     containerEl.createEl("h3", { text: "Free Model Fallback" });
 
     containerEl.createEl("p", {
-      text: 'Set the priority order for free models. Use "auto-free" as your default model to automatically use the highest-ranked model that is not rate limited.',
+      text: 'Set the priority order for free models. Use "auto-free" as your default model to automatically use the highest-ranked model that answers.',
       cls: "setting-item-description",
     });
 
@@ -641,6 +1436,31 @@ export class SummarizeSettingTab extends PluginSettingTab {
       new Notice('Default model set to "auto-free"');
     });
 
+    // Manual entry for models from other providers (e.g. local Ollama models)
+    const addToolbar = containerEl.createDiv({ cls: "summarize-toolbar" });
+    const addInput = addToolbar.createEl("input", {
+      type: "text",
+      placeholder: "Add model by ID, e.g. ollama:llama3.2",
+    });
+    const addBtn = addToolbar.createEl("button", { text: "Add" });
+    const addManual = async () => {
+      const modelId = addInput.value.trim();
+      if (!modelId) return;
+      if (!this.plugin.settings.openRouter.freeModelRank.includes(modelId)) {
+        this.plugin.settings.openRouter.freeModelRank = [
+          ...this.plugin.settings.openRouter.freeModelRank,
+          modelId,
+        ];
+        await this.plugin.saveSettings();
+      }
+      addInput.value = "";
+      renderList();
+    };
+    addBtn.addEventListener("click", addManual);
+    addInput.addEventListener("keydown", (e) => {
+      if (e.key === "Enter") addManual();
+    });
+
     // Rank list
     const rankList = containerEl.createDiv({ cls: "summarize-rank-list" });
     let dragId: string | null = null;
@@ -718,6 +1538,132 @@ export class SummarizeSettingTab extends PluginSettingTab {
     };
 
     renderList();
+
+    this.renderFallbackSettings(containerEl);
+  }
+
+  /**
+   * Which errors fail over, cooldowns and the paid model at the end of the chain
+   */
+  private renderFallbackSettings(containerEl: HTMLElement): void {
+    containerEl.createEl("h3", { text: "Fallback Chain" });
+
+    containerEl.createEl("p", {
+      text: "auto-free tries the ranked models in order, then the paid fallback model. These errors move on to the next model; any other error stops the summary.",
+      cls: "setting-item-description",
+    });
+
+    for (const [errorClass, label] of Object.entries(FALLBACK_ERROR_LABELS) as [FallbackErrorClass, string][]) {
+      new Setting(containerEl)
+        .setName(label)
+        .setDesc(FALLBACK_ERROR_DESCRIPTIONS[errorClass])
+        .addToggle((toggle) =>
+          toggle
+            .setValue(this.plugin.settings.fallbackErrors.includes(errorClass))
+            .onChange(async (value) => {
+              const others = this.plugin.settings.fallbackErrors.filter((c) => c !== errorClass);
+              this.plugin.settings.fallbackErrors = value ? [...others, errorClass] : others;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    new Setting(containerEl)
+      .setName("Cooldown (minutes)")
+      .setDesc("Skip a model this long after it was rate limited, errored or timed out. 0 = no cooldown.")
+      .addText((text) =>
+        text
+          .setPlaceholder("5")
+          .setValue(String(this.plugin.settings.fallbackCooldownMinutes))
+          .onChange(async (value) => {
+            const minutes = parseFloat(value);
+            if (Number.isFinite(minutes) && minutes >= 0) {
+              this.plugin.settings.fallbackCooldownMinutes = minutes;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Paid Fallback Model")
+      .setDesc('Tried when every ranked model failed, e.g. "openai/gpt-4o-mini" or "anthropic:claude-3-5-haiku-latest". Leave empty for none.')
+      .addText((text) =>
+        text
+          .setPlaceholder("openai/gpt-4o-mini")
+          .setValue(this.plugin.settings.fallbackPaidModel)
+          .onChange(async (value) => {
+            this.plugin.settings.fallbackPaidModel = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Show Answering Model")
+      .setDesc("Note which model wrote the summary below it when an earlier model in the chain failed")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.fallbackShowModel).onChange(async (value) => {
+          this.plugin.settings.fallbackShowModel = value;
+          await this.plugin.saveSettings();
+        })
+      );
+  }
+
+  // ============================================================================
+  // Provider Helpers
+  // ============================================================================
+
+  private validateProviderId(id: string, index: number): string | null {
+    if (!/^[a-z0-9][a-z0-9_-]*$/i.test(id)) {
+      return "Use letters, numbers, dashes and underscores only";
+    }
+    if (RESERVED_PROVIDER_IDS.includes(id.toLowerCase())) {
+      return `"${id}" is reserved`;
+    }
+    if (this.plugin.settings.providers.some((p, i) => i !== index && p.id === id)) {
+      return `Another provider already uses "${id}"`;
+    }
+    return null;
+  }
+
+  /**
+   * List unknown variables and unbalanced {{#if}} blocks in a prompt template
+   */
+  private renderPromptProblems(containerEl: HTMLElement, template: string): void {
+    containerEl.empty();
+    if (!template.trim()) return;
+    for (const problem of validatePromptTemplate(template)) {
+      containerEl.createDiv({ text: `⚠ ${problem}` });
+    }
+  }
+
+  /**
+   * Render a prompt template against the sample article, as it would be sent to the model
+   */
+  private renderPromptPreview(template: string): string {
+    const sample = SAMPLE_EXTRACTED_CONTENT;
+    return renderPromptTemplate(template, {
+      ...SAMPLE_PROMPT_CONTEXT,
+      title: sample.title,
+      url: sample.url,
+      sourceType: sample.sourceType,
+      content: sample.content,
+      wordCount: LENGTH_WORD_COUNTS[this.plugin.settings.defaultLength],
+    });
+  }
+
+  private getUniquePresetId(base: string): string {
+    const taken = new Set(this.plugin.settings.presets.map((p) => p.id));
+    let suffix = 1;
+    while (taken.has(`${base}-${suffix}`)) suffix += 1;
+    return `${base}-${suffix}`;
+  }
+
+  private getUniqueProviderId(base: string): string {
+    const taken = new Set(this.plugin.settings.providers.map((p) => p.id));
+    if (!taken.has(base)) return base;
+    let suffix = 2;
+    while (taken.has(`${base}${suffix}`)) suffix += 1;
+    return `${base}${suffix}`;
   }
 
   // ============================================================================
@@ -1,3 +1,8 @@
+import type { SummaryLength, SourceType, TokenUsage, ExtractedContent } from "./api";
+
+// Public API types live in api.ts so other plugins can copy them
+export * from "./api";
+
 // ============================================================================
 // Plugin Settings
 // ============================================================================
@@ -5,21 +10,95 @@
 export interface SummarizeSettings {
   // OpenRouter Configuration
   openRouterApiKey: string;
-  defaultModel: string;
+  defaultModel: string; // "model", "provider:model" or "auto-free"
+
+  // Additional LLM providers (OpenAI-compatible, Anthropic, local servers)
+  providers: ProviderConfig[];
 
   // Summarization defaults
   defaultLength: SummaryLength;
   customPrompt: string; // custom prompt template (empty = use default)
 
+  // Named presets with their own prompt, model, length, temperature and insert behavior
+  presets: SummaryPreset[];
+
   // Output behavior
   insertBehavior: InsertBehavior;
+  newNoteFolder: string; // folder for "new-note" insert behavior
+  newNoteFilename: string; // filename template: {{date}}, {{time}}, {{title}}
+  newNoteTags: string; // comma-separated tags for the note's frontmatter
+  youtubeTimestampLinks: boolean; // link summary bullets back to video timestamps
+  citationMode: CitationMode; // cite source passages as footnotes or quote links
+
+  // Summary cache
+  cacheEnabled: boolean;
+  cacheTtlDays: number; // 0 = never expire
+  cacheMaxEntries: number; // 0 = unlimited
+
+  // Summary history
+  historyEnabled: boolean; // record every generated summary
+  historyMaxEntries: number; // oldest summaries are dropped beyond this, 0 = unlimited
+
+  // Batch summarization
+  batchConcurrency: number; // links summarized in parallel
+  bulkSummaryTarget: BulkSummaryTarget; // where folder/tag summaries are written
+  bulkSummaryProperty: string; // frontmatter property for the "frontmatter" target
+
+  // Request queue
+  maxConcurrentRequests: number; // model requests in flight at once, across all features and plugins
+
+  // Note summaries
+  noteResolveEmbeds: boolean; // expand ![[embeds]] into their content
+  noteIncludeLinkedNotes: boolean; // append one hop of linked notes as context
+  noteContextTokens: number; // token budget for embedded and linked content, 0 = unlimited
+
+  // Usage budget
+  monthlyBudget: number; // USD, 0 = no budget
+  budgetAction: BudgetAction; // what to do before paid calls once the budget is spent
+
+  // Model fallback chain (auto-free)
+  fallbackErrors: FallbackErrorClass[]; // errors that move on to the next model
+  fallbackCooldownMinutes: number; // skip a model this long after it failed, 0 = no cooldown
+  fallbackPaidModel: string; // tried after the free rank, empty = none
+  fallbackShowModel: boolean; // note the answering model below summaries when a fallback was used
 
   // OpenRouter model cache
   openRouter: OpenRouterCache;
 }
 
-export type SummaryLength = "brief" | "short" | "medium" | "long";
-export type InsertBehavior = "below" | "replace" | "clipboard";
+export type InsertBehavior = "below" | "replace" | "clipboard" | "new-note";
+export type BulkSummaryTarget = "frontmatter" | "section";
+export type BudgetAction = "warn" | "block";
+export type ProviderType = "openai-compatible" | "anthropic";
+export type CitationMode = "off" | "footnotes" | "links";
+export type FallbackErrorClass = "rate-limit" | "server" | "timeout" | "empty" | "refusal";
+export type RequestPriority = "interactive" | "background";
+
+export interface SummaryPreset {
+  /** Stable ID used for the preset's command and SummarizeOptions.preset */
+  id: string;
+  name: string;
+  /** Prompt template with {{content}} and {{wordCount}} (empty = global prompt) */
+  prompt: string;
+  /** Model ID or "provider:model" (empty = default model) */
+  model: string;
+  length: SummaryLength;
+  /** null = provider default */
+  temperature: number | null;
+  /** "default" = global insert behavior */
+  insertBehavior: InsertBehavior | "default";
+}
+
+export interface ProviderConfig {
+  /** Prefix used to address models, e.g. "ollama" in "ollama:llama3.2" */
+  id: string;
+  name: string;
+  type: ProviderType;
+  /** e.g. https://api.openai.com/v1, http://localhost:11434/v1, https://api.anthropic.com */
+  baseUrl: string;
+  apiKey: string;
+  enabled: boolean;
+}
 
 // ============================================================================
 // OpenRouter Types
@@ -32,6 +111,8 @@ export interface OpenRouterModel {
   name: string;
   description?: string;
   context_length: number;
+  /** Output token limit of the top provider, if OpenRouter reports one */
+  max_completion_tokens?: number;
   pricing: OpenRouterPricing;
   supported_parameters?: string[];
   architecture?: OpenRouterArchitecture;
@@ -67,48 +148,58 @@ export interface OpenRouterCache {
 }
 
 // ============================================================================
-// API Types (for other plugins)
+// Internal Types
 // ============================================================================
 
-export interface SummarizeOptions {
-  /** Summary length: brief (~50 words), short (~100 words), medium (~250 words), long (~500 words) */
-  length?: SummaryLength;
-  /** Override the default model */
-  model?: string;
-  /** Custom prompt template. Use {{content}} and {{wordCount}} as placeholders */
-  prompt?: string;
-  /** Optional callback for streaming responses */
-  onStream?: (chunk: string) => void;
+/**
+ * Values for prompt template variables besides {{content}} and {{wordCount}}
+ */
+export interface PromptContext {
+  /** Title of the summarized page, video or note */
+  title?: string;
+  url?: string;
+  /** Basename of the active note */
+  noteTitle?: string;
+  /** Frontmatter of the active note, available as {{frontmatter.key}} */
+  frontmatter?: Record<string, unknown>;
+  language?: string;
+  sourceType?: SourceType | "text";
 }
 
-export interface SummarizeAPI {
-  /** Summarize text content */
-  summarize(content: string, options?: SummarizeOptions): Promise<string>;
-  /** Summarize content from a URL */
-  summarizeUrl(url: string, options?: SummarizeOptions): Promise<string>;
-  /** Check if the plugin is configured (has API key) */
-  isConfigured(): boolean;
-}
-
-// ============================================================================
-// Internal Types
-// ============================================================================
-
-export interface ExtractedContent {
+/**
+ * The source of the most recent summary, kept for follow-up questions.
+ * Content is missing when the summary came from the cache.
+ */
+export interface SummarySource {
   title: string;
-  content: string;
-  url: string;
-  wordCount: number;
+  url?: string;
+  /** Vault path when a note or vault PDF was summarized */
+  filePath?: string;
+  content?: string;
+  sourceType?: SourceType;
 }
 
 export interface LLMResponse {
   content: string;
   model: string;
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+  /** Why generation stopped: "stop", "length" (hit max tokens), ... when the provider reports it */
+  finishReason?: string;
+  /** Models of the fallback chain that failed before this one answered */
+  fallbackFrom?: string[];
+  /** Id of the fallback chain model that answered, as configured (the reported model may differ) */
+  resolvedModel?: string;
+  usage?: TokenUsage;
+}
+
+export interface UsageRecord {
+  timestamp: number;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  /** USD, null when the model's pricing is unknown */
+  cost: number | null;
+  /** What was summarized; "text" for notes, selections and API text */
+  sourceType: SourceType | "text";
 }
 
 // ============================================================================
@@ -127,12 +218,195 @@ Rules:
 
 {{content}}`;
 
+/**
+ * Content and context used for the prompt template preview in settings
+ */
+export const SAMPLE_EXTRACTED_CONTENT: ExtractedContent = {
+  title: "How Octopuses Edit Their Own RNA",
+  url: "https://www.example.com/science/octopus-rna-editing",
+  content:
+    "Octopuses and squid recode their RNA far more often than other animals, trading slower genome evolution for flexible proteins that adapt to cold water...",
+  wordCount: 1840,
+  sourceType: "web",
+};
+
+export const SAMPLE_PROMPT_CONTEXT: PromptContext = {
+  noteTitle: "Reading list",
+  frontmatter: { tags: ["biology", "to-read"], author: "Jane Doe" },
+  language: "English",
+};
+
+/**
+ * Prompt for the map pass of chunked summarization.
+ * Placeholders: {{content}}, {{wordCount}}, {{part}}, {{parts}}
+ */
+export const CHUNK_PROMPT = `The following is part {{part}} of {{parts}} of a longer document. Summarize this part in approximately {{wordCount}} words so it can be merged with the summaries of the other parts.
+
+Rules:
+- Keep specific details: numbers, names, concrete examples
+- Do not add an introduction or conclusion
+- Skip meta-commentary ("This section discusses...")
+
+{{content}}`;
+
+/**
+ * Preamble for the reduce pass, prepended to the merged partial summaries
+ */
+export const REDUCE_PREAMBLE = `The following are summaries of consecutive parts of a single longer document. Treat them as one source.`;
+
+/**
+ * System prompt for follow-up questions about a summarized source.
+ * Placeholders: {{title}}, {{url}}, {{content}}
+ */
+export const CHAT_SYSTEM_PROMPT = `You answer follow-up questions about a source the user has just summarized.
+Answer only from the source below. If the source does not cover the question, say so.
+Quote the source briefly where it helps. Keep answers concise and use Markdown.
+
+Source title: {{title}}
+Source URL: {{url}}
+
+<source>
+{{content}}
+</source>`;
+
+/**
+ * Prompt for the final pass of multi-source synthesis.
+ * Placeholders: {{count}}, {{wordCount}}, {{sources}}
+ */
+export const SYNTHESIS_PROMPT = `Below are summaries of {{count}} sources, numbered [1] to [{{count}}]. Write a comparative synthesis of about {{wordCount}} words with these sections:
+
+### Overview
+What the sources are about together, in two or three sentences.
+
+### Agreements
+Claims that several sources support.
+
+### Disagreements
+Where sources contradict each other or reach different conclusions. Write "None found." if there are none.
+
+### Unique Claims
+For each source, the important points only it makes.
+
+Rules:
+- Cite sources after every claim with their numbers in square brackets, e.g. [1] or [2][3]
+- Only use the numbers listed below and only state what the summaries support
+- Use bullets and keep specific details: numbers, names, concrete examples
+
+{{sources}}`;
+
+/**
+ * Prompt for structured (JSON) summaries.
+ * Placeholders: {{content}}, {{wordCount}}, {{title}}
+ */
+export const STRUCTURED_PROMPT = `Analyze the following content and return a JSON object with exactly these fields:
+- "tldr": a one or two sentence summary
+- "keyPoints": the most important points as an array of strings, about {{wordCount}} words in total
+- "entities": people, organizations, products, places and key concepts mentioned, as objects with "name" and "type"
+- "actionItems": concrete tasks or next steps mentioned (empty array if none)
+- "openQuestions": important questions the content raises but does not answer (empty array if none)
+- "sourceTitle": the title of the content (use "{{title}}" if it has no clear title)
+
+Return only the JSON object, without code fences or commentary.
+
+{{content}}`;
+
+/**
+ * Prompt asking the model to fix invalid structured output. Placeholder: {{content}}
+ */
+export const STRUCTURED_REPAIR_PROMPT = `The following was supposed to be a single JSON object with the fields "tldr", "keyPoints", "entities", "actionItems", "openQuestions" and "sourceTitle", but it is not valid JSON. Return only the corrected JSON object.
+
+{{content}}`;
+
+/**
+ * Follow-up message when a completion stopped at the output token limit
+ */
+export const CONTINUE_PROMPT = `Your previous answer was cut off because it reached the output limit. Continue exactly where you left off, without repeating anything or adding a preamble.`;
+
+/**
+ * Appended to a summary that was still cut off after the continuation requests
+ */
+export const TRUNCATION_MARKER = `\n\n> [!warning] Summary truncated\n> The model reached its output limit before finishing. Try a shorter length or a model with a larger output limit.`;
+
+/**
+ * Extra instructions for video transcripts when timestamp links are enabled
+ */
+export const YOUTUBE_TIMESTAMP_INSTRUCTIONS = `The content is a video transcript with [mm:ss] timestamps. Start each bullet with the timestamp where the point is made, formatted exactly as in the transcript (e.g. [12:34]).`;
+
+/**
+ * Extra instructions when summaries cite source passages
+ */
+export const CITATION_INSTRUCTIONS = `The content is split into passages that start with ids like [P1], [P2]. End every bullet with the ids of the passages that support it, in square brackets, e.g. [P3] or [P3][P7]. Only cite ids that appear in the content.`;
+
 export const DEFAULT_SETTINGS: SummarizeSettings = {
   openRouterApiKey: "",
   defaultModel: "google/gemini-2.0-flash-exp:free",
+  providers: [],
   defaultLength: "medium",
   customPrompt: "",
+  presets: [
+    {
+      id: "meeting-action-items",
+      name: "Meeting notes → action items",
+      prompt: `Extract the action items from the following meeting notes.
+List each as a Markdown task ("- [ ] ...") with the owner and due date if mentioned.
+Finish with a one-sentence summary of the decisions made. Use at most {{wordCount}} words.
+
+{{content}}`,
+      model: "",
+      length: "short",
+      temperature: 0.2,
+      insertBehavior: "default",
+    },
+    {
+      id: "paper-abstract",
+      name: "Paper → abstract + methods + limitations",
+      prompt: `Summarize the following paper in approximately {{wordCount}} words using three sections:
+## Abstract
+## Methods
+## Limitations
+
+{{content}}`,
+      model: "",
+      length: "long",
+      temperature: null,
+      insertBehavior: "default",
+    },
+    {
+      id: "thread-one-liner",
+      name: "Tweet thread → one-liner",
+      prompt: `Summarize the following thread in a single sentence.
+
+{{content}}`,
+      model: "",
+      length: "brief",
+      temperature: null,
+      insertBehavior: "default",
+    },
+  ],
   insertBehavior: "below",
+  newNoteFolder: "Summaries",
+  newNoteFilename: "{{date}} {{title}}",
+  newNoteTags: "summary",
+  youtubeTimestampLinks: true,
+  citationMode: "off",
+  cacheEnabled: true,
+  cacheTtlDays: 30,
+  cacheMaxEntries: 500,
+  historyEnabled: true,
+  historyMaxEntries: 1000,
+  batchConcurrency: 3,
+  bulkSummaryTarget: "frontmatter",
+  bulkSummaryProperty: "summary",
+  maxConcurrentRequests: 3,
+  noteResolveEmbeds: true,
+  noteIncludeLinkedNotes: false,
+  noteContextTokens: 32000,
+  monthlyBudget: 0,
+  budgetAction: "warn",
+  fallbackErrors: ["rate-limit", "server", "timeout", "empty", "refusal"],
+  fallbackCooldownMinutes: 5,
+  fallbackPaidModel: "",
+  fallbackShowModel: true,
   openRouter: {
     models: [],
     lastFetched: null,
@@ -157,3 +431,21 @@ export const LENGTH_WORD_COUNTS: Record<SummaryLength, number> = {
   medium: 250,
   long: 500,
 };
+
+// ============================================================================
+// Model fallback
+// ============================================================================
+
+/** Errors that can move the fallback chain on to the next model, with their labels */
+export const FALLBACK_ERROR_LABELS: Record<FallbackErrorClass, string> = {
+  "rate-limit": "Rate limit",
+  server: "Server error",
+  timeout: "Timeout or network error",
+  empty: "Empty response",
+  refusal: "Moderation refusal",
+};
+
+/**
+ * Noted below a summary when the fallback chain switched models. Placeholder: {{model}}
+ */
+export const FALLBACK_MODEL_NOTE = `\n\n*Summarized by {{model}} (fallback model)*`;
@@ -0,0 +1,358 @@
+import { ItemView, MarkdownRenderer, Notice, TFile, WorkspaceLeaf } from "obsidian";
+import { ContentExtractor } from "../services/content-extractor";
+import { LLMService } from "../services/llm-service";
+import { ChatMessage } from "../services/llm-providers";
+import { SummarySource } from "../types";
+
+export const CHAT_VIEW_TYPE = "summarize-source-chat";
+
+/**
+ * Side panel for follow-up questions about the most recently summarized source
+ */
+export class SourceChatView extends ItemView {
+  private llmService: LLMService;
+  private contentExtractor: ContentExtractor;
+
+  private source: SummarySource | null = null;
+  private conversation: ChatMessage[] = [];
+  private abortController: AbortController | null = null;
+
+  private headerEl!: HTMLElement;
+  private messagesEl!: HTMLElement;
+  private inputEl!: HTMLTextAreaElement;
+  private sendBtn!: HTMLButtonElement;
+
+  constructor(leaf: WorkspaceLeaf, llmService: LLMService, contentExtractor: ContentExtractor) {
+    super(leaf);
+    this.llmService = llmService;
+    this.contentExtractor = contentExtractor;
+  }
+
+  getViewType(): string {
+    return CHAT_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return "Source chat";
+  }
+
+  getIcon(): string {
+    return "messages-square";
+  }
+
+  async onOpen(): Promise<void> {
+    this.addStyles();
+
+    const container = this.contentEl;
+    container.empty();
+    container.addClass("summarize-chat");
+
+    this.headerEl = container.createDiv({ cls: "summarize-chat-header" });
+    this.messagesEl = container.createDiv({ cls: "summarize-chat-messages" });
+
+    const inputWrap = container.createDiv({ cls: "summarize-chat-input" });
+    this.inputEl = inputWrap.createEl("textarea", {
+      attr: { placeholder: "Ask about the source... (Enter to send, Shift+Enter for a new line)", rows: "3" },
+    });
+    this.inputEl.addEventListener("keydown", (e) => {
+      if (e.key === "Enter" && !e.shiftKey) {
+        e.preventDefault();
+        this.send();
+      }
+    });
+
+    this.sendBtn = inputWrap.createEl("button", { text: "Send", cls: "mod-cta" });
+    this.sendBtn.addEventListener("click", () => {
+      if (this.abortController) {
+        this.abortController.abort();
+      } else {
+        this.send();
+      }
+    });
+
+    this.render();
+  }
+
+  async onClose(): Promise<void> {
+    this.abortController?.abort();
+  }
+
+  /**
+   * Switch to a new source and start a fresh conversation
+   */
+  setSource(source: SummarySource | null): void {
+    if (source === this.source) return;
+
+    this.abortController?.abort();
+    this.source = source;
+    this.conversation = [];
+    this.render();
+  }
+
+  private render(): void {
+    if (!this.headerEl) return;
+
+    this.headerEl.empty();
+    this.messagesEl.empty();
+
+    if (!this.source) {
+      this.headerEl.createDiv({ text: "No source yet", cls: "summarize-chat-title" });
+      this.messagesEl.createEl("p", {
+        text: "Summarize a URL, selection or note, then ask follow-up questions about it here.",
+        cls: "summarize-chat-empty",
+      });
+      this.setInputEnabled(false);
+      return;
+    }
+
+    const title = this.headerEl.createDiv({ cls: "summarize-chat-title" });
+    if (this.source.url) {
+      title.createEl("a", { text: this.source.title, href: this.source.url });
+    } else {
+      title.setText(this.source.title);
+    }
+
+    const clearBtn = this.headerEl.createEl("button", { text: "Clear" });
+    clearBtn.addEventListener("click", () => {
+      this.abortController?.abort();
+      this.conversation = [];
+      this.render();
+    });
+
+    this.conversation.forEach((message, index) => {
+      if (message.role === "user") {
+        this.renderQuestion(message.content);
+      } else {
+        const question = this.conversation[index - 1]?.content ?? "";
+        this.renderAnswer(question, message.content);
+      }
+    });
+
+    this.setInputEnabled(true);
+  }
+
+  private setInputEnabled(enabled: boolean): void {
+    this.inputEl.disabled = !enabled;
+    this.sendBtn.disabled = !enabled;
+  }
+
+  private renderQuestion(question: string): void {
+    this.messagesEl.createDiv({ cls: "summarize-chat-message is-user", text: question });
+  }
+
+  private renderAnswer(question: string, answer: string): HTMLElement {
+    const messageEl = this.messagesEl.createDiv({ cls: "summarize-chat-message is-assistant" });
+    const bodyEl = messageEl.createDiv();
+    MarkdownRenderer.render(this.app, answer, bodyEl, this.source?.filePath ?? "", this);
+
+    const actions = messageEl.createDiv({ cls: "summarize-chat-actions" });
+    const insertBtn = actions.createEl("button", { text: "Insert into note" });
+    insertBtn.addEventListener("click", () => this.insertAnswer(question, answer));
+
+    return messageEl;
+  }
+
+  /**
+   * Ask the current question, streaming the answer into the panel
+   */
+  private async send(): Promise<void> {
+    const question = this.inputEl.value.trim();
+    if (!question || !this.source || this.abortController) return;
+
+    if (!this.llmService.isConfigured()) {
+      new Notice("Please configure your OpenRouter API key or another provider in settings.");
+      return;
+    }
+
+    const source = this.source;
+    this.inputEl.value = "";
+    this.renderQuestion(question);
+
+    const pendingEl = this.messagesEl.createDiv({ cls: "summarize-chat-message is-assistant is-pending" });
+    pendingEl.setText("Thinking...");
+    this.scrollToBottom();
+
+    this.abortController = new AbortController();
+    this.sendBtn.setText("Stop");
+
+    try {
+      const content = await this.getSourceContent(source);
+      const conversation: ChatMessage[] = [...this.conversation, { role: "user", content: question }];
+
+      let streamed = "";
+      const response = await this.llmService.chatAboutSource(
+        { ...source, content },
+        conversation,
+        {
+          onStream: (chunk) => {
+            streamed += chunk;
+            pendingEl.setText(streamed);
+            this.scrollToBottom();
+          },
+          onStreamReset: () => {
+            streamed = "";
+            pendingEl.setText("Thinking...");
+          },
+          abortSignal: this.abortController.signal,
+        }
+      );
+
+      // The source may have changed while the answer was streaming
+      if (source !== this.source) return;
+
+      this.conversation = [...conversation, { role: "assistant", content: response.content }];
+      pendingEl.remove();
+      this.renderAnswer(question, response.content);
+      this.scrollToBottom();
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") {
+        pendingEl.setText("Cancelled.");
+      } else {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        pendingEl.setText(`Failed to answer: ${message}`);
+        pendingEl.addClass("is-error");
+      }
+    } finally {
+      this.abortController = null;
+      this.sendBtn.setText("Send");
+    }
+  }
+
+  /**
+   * Source content, extracting it again if the summary came from the cache
+   */
+  private async getSourceContent(source: SummarySource): Promise<string> {
+    if (source.content) return source.content;
+
+    if (source.url) {
+      const extracted = await this.contentExtractor.extractFromUrl(source.url);
+      source.content = extracted.content;
+      source.sourceType = extracted.sourceType;
+      return extracted.content;
+    }
+
+    throw new Error("The source content is no longer available. Summarize it again.");
+  }
+
+  /**
+   * Insert a question and answer as a callout into the last active note, citing the source
+   */
+  private insertAnswer(question: string, answer: string): void {
+    const editor = this.app.workspace.activeEditor?.editor;
+    if (!editor) {
+      new Notice("No note to insert into.");
+      return;
+    }
+
+    const notePath = this.app.workspace.activeEditor?.file?.path ?? "";
+    const block = [
+      `> [!question] ${question.replace(/\s*\n\s*/g, " ")}`,
+      ...answer.trim().split("\n").map((line) => (line ? `> ${line}` : ">")),
+      ">",
+      `> Source: ${this.formatCitation(notePath)}`,
+    ].join("\n");
+
+    const cursor = editor.getCursor("to");
+    const lineEnd = { line: cursor.line, ch: editor.getLine(cursor.line).length };
+    editor.replaceRange(`\n\n${block}\n`, lineEnd);
+    new Notice("Answer inserted");
+  }
+
+  private formatCitation(notePath: string): string {
+    if (!this.source) return "";
+    if (this.source.url) return `[${this.source.title}](${this.source.url})`;
+
+    const file = this.source.filePath
+      ? this.app.vault.getAbstractFileByPath(this.source.filePath)
+      : null;
+    if (file instanceof TFile) {
+      return this.app.fileManager.generateMarkdownLink(file, notePath);
+    }
+    return this.source.title;
+  }
+
+  private scrollToBottom(): void {
+    this.messagesEl.scrollTop = this.messagesEl.scrollHeight;
+  }
+
+  private addStyles(): void {
+    const styleId = "summarize-chat-styles";
+    if (document.getElementById(styleId)) return;
+
+    const style = document.createElement("style");
+    style.id = styleId;
+    style.textContent = `
+      .summarize-chat {
+        display: flex;
+        flex-direction: column;
+        height: 100%;
+        gap: 8px;
+      }
+      .summarize-chat-header {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        gap: 8px;
+        padding-bottom: 8px;
+        border-bottom: 1px solid var(--background-modifier-border);
+      }
+      .summarize-chat-title {
+        font-weight: 600;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+      .summarize-chat-messages {
+        flex: 1;
+        overflow-y: auto;
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+      }
+      .summarize-chat-empty {
+        color: var(--text-muted);
+        font-size: 0.9em;
+      }
+      .summarize-chat-message {
+        padding: 8px 10px;
+        border-radius: 6px;
+        white-space: pre-wrap;
+        user-select: text;
+      }
+      .summarize-chat-message.is-user {
+        align-self: flex-end;
+        background: var(--interactive-accent);
+        color: var(--text-on-accent);
+      }
+      .summarize-chat-message.is-assistant {
+        background: var(--background-secondary);
+        white-space: normal;
+      }
+      .summarize-chat-message.is-pending {
+        white-space: pre-wrap;
+      }
+      .summarize-chat-message.is-error {
+        color: var(--text-error);
+      }
+      .summarize-chat-actions {
+        display: flex;
+        justify-content: flex-end;
+        margin-top: 4px;
+      }
+      .summarize-chat-actions button {
+        font-size: 0.8em;
+        padding: 2px 6px;
+      }
+      .summarize-chat-input {
+        display: flex;
+        gap: 8px;
+        align-items: flex-end;
+      }
+      .summarize-chat-input textarea {
+        flex: 1;
+        resize: vertical;
+      }
+    `;
+    document.head.appendChild(style);
+  }
+}
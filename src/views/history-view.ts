@@ -0,0 +1,377 @@
+import { App, FuzzySuggestModal, ItemView, MarkdownRenderer, Modal, Notice, WorkspaceLeaf, moment } from "obsidian";
+import { SummaryHistory, SummaryHistoryEntry, getHistorySource } from "../services/summary-history";
+import { diffWords } from "../services/text-diff";
+import { SummarizeAction } from "../actions/summarize";
+
+export const HISTORY_VIEW_TYPE = "summarize-history";
+
+/** Characters of each summary shown before it is expanded */
+const PREVIEW_CHARS = 200;
+
+/**
+ * Side panel listing past summaries, with search, filters, re-insert and
+ * comparison of summaries of the same source
+ */
+export class SummaryHistoryView extends ItemView {
+  private history: SummaryHistory;
+  private summarizeAction: SummarizeAction;
+
+  private query = "";
+  /** Source key to show, undefined for all sources */
+  private source: string | undefined;
+  private model = "";
+
+  private sourceSelect!: HTMLSelectElement;
+  private modelSelect!: HTMLSelectElement;
+  private listEl!: HTMLElement;
+
+  constructor(leaf: WorkspaceLeaf, history: SummaryHistory, summarizeAction: SummarizeAction) {
+    super(leaf);
+    this.history = history;
+    this.summarizeAction = summarizeAction;
+  }
+
+  getViewType(): string {
+    return HISTORY_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return "Summary history";
+  }
+
+  getIcon(): string {
+    return "history";
+  }
+
+  async onOpen(): Promise<void> {
+    this.addStyles();
+
+    const container = this.contentEl;
+    container.empty();
+    container.addClass("summarize-history");
+
+    const filters = container.createDiv({ cls: "summarize-history-filters" });
+    const searchEl = filters.createEl("input", {
+      type: "search",
+      attr: { placeholder: "Search summaries..." },
+    });
+    searchEl.addEventListener("input", () => {
+      this.query = searchEl.value;
+      this.refresh();
+    });
+
+    this.sourceSelect = filters.createEl("select", { cls: "dropdown" });
+    this.sourceSelect.addEventListener("change", () => {
+      this.source = this.sourceSelect.value === "*" ? undefined : this.sourceSelect.value;
+      this.refresh();
+    });
+
+    this.modelSelect = filters.createEl("select", { cls: "dropdown" });
+    this.modelSelect.addEventListener("change", () => {
+      this.model = this.modelSelect.value;
+      this.refresh();
+    });
+
+    this.listEl = container.createDiv({ cls: "summarize-history-list" });
+    await this.refresh();
+  }
+
+  /**
+   * Re-read the history and render the entries matching the current filters
+   */
+  async refresh(): Promise<void> {
+    if (!this.listEl) return;
+
+    const { sources, models } = await this.history.getFacets();
+    // A filter whose last entry was deleted stays selected, showing an empty list
+    if (this.source !== undefined && !sources.has(this.source)) sources.set(this.source, this.source);
+    if (this.model && !models.includes(this.model)) models.push(this.model);
+
+    const sourceOptions = Array.from(sources.entries())
+      .map(([source, title]): [string, string] => [source, title || "Other text"])
+      .sort((a, b) => a[1].localeCompare(b[1]));
+    this.fillSelect(this.sourceSelect, [["*", "All sources"], ...sourceOptions], this.source ?? "*");
+    this.fillSelect(
+      this.modelSelect,
+      [["", "All models"], ...models.map((model): [string, string] => [model, model])],
+      this.model
+    );
+
+    const entries = await this.history.search({ query: this.query, source: this.source, model: this.model });
+    this.listEl.empty();
+
+    if (entries.length === 0) {
+      this.listEl.createEl("p", {
+        text: (await this.history.size()) === 0
+          ? "Summaries you generate will be listed here."
+          : "No summaries match.",
+        cls: "summarize-history-empty",
+      });
+      return;
+    }
+
+    for (const entry of entries) {
+      this.renderEntry(entry);
+    }
+  }
+
+  private fillSelect(select: HTMLSelectElement, options: [string, string][], value: string): void {
+    select.empty();
+    for (const [optionValue, label] of options) {
+      select.createEl("option", { value: optionValue, text: label });
+    }
+    select.value = value;
+  }
+
+  private renderEntry(entry: SummaryHistoryEntry): void {
+    const entryEl = this.listEl.createDiv({ cls: "summarize-history-entry" });
+
+    const title = entryEl.createDiv({ cls: "summarize-history-title" });
+    if (entry.url) {
+      title.createEl("a", { text: entry.title || entry.url, href: entry.url });
+    } else {
+      title.setText(entry.title || entry.notePath || "Text");
+    }
+
+    const meta = [
+      moment(entry.createdAt).format("YYYY-MM-DD HH:mm"),
+      entry.model,
+      entry.length,
+      entry.preset ? `preset: ${entry.preset}` : "",
+    ].filter(Boolean);
+    entryEl.createDiv({ cls: "summarize-history-meta", text: meta.join(" · ") });
+
+    const details = entryEl.createEl("details");
+    const preview = entry.content.replace(/\s+/g, " ").trim();
+    details.createEl("summary", {
+      text: preview.length > PREVIEW_CHARS ? `${preview.slice(0, PREVIEW_CHARS)}…` : preview,
+    });
+    const bodyEl = details.createDiv({ cls: "summarize-history-body" });
+    details.addEventListener("toggle", () => {
+      if (details.open && bodyEl.childElementCount === 0) {
+        MarkdownRenderer.render(this.app, entry.content, bodyEl, entry.notePath ?? "", this);
+      }
+    });
+
+    const actions = entryEl.createDiv({ cls: "summarize-history-actions" });
+    this.addButton(actions, "Insert", () => this.insertEntry(entry));
+    this.addButton(actions, "Copy", async () => {
+      await navigator.clipboard.writeText(entry.content);
+      new Notice("Summary copied to clipboard!");
+    });
+    if (getHistorySource(entry)) {
+      this.addButton(actions, "Compare", () => this.compareEntry(entry));
+    }
+    this.addButton(actions, "Delete", () => this.history.delete(entry.id));
+  }
+
+  private addButton(container: HTMLElement, text: string, onClick: () => unknown): void {
+    container.createEl("button", { text }).addEventListener("click", onClick);
+  }
+
+  /**
+   * Insert a past summary into the last active note, as if it had just been generated
+   */
+  private async insertEntry(entry: SummaryHistoryEntry): Promise<void> {
+    const editor = this.app.workspace.activeEditor?.editor;
+    if (!editor) {
+      new Notice("No note to insert into.");
+      return;
+    }
+
+    await this.summarizeAction.insertSummary(
+      editor,
+      entry.content,
+      { title: entry.title, url: entry.url, model: entry.model, length: entry.length },
+      undefined,
+      entry.url ? { kind: "url", url: entry.url, options: { model: entry.model, length: entry.length } } : undefined
+    );
+  }
+
+  /**
+   * Diff a summary against another summary of the same source
+   */
+  private async compareEntry(entry: SummaryHistoryEntry): Promise<void> {
+    const versions = await this.history.getVersions(entry);
+    if (versions.length === 0) {
+      new Notice("No other summaries of this source yet.");
+      return;
+    }
+
+    const open = (other: SummaryHistoryEntry) => {
+      // Show the change from the older summary to the newer one
+      const [before, after] = other.createdAt <= entry.createdAt ? [other, entry] : [entry, other];
+      new SummaryDiffModal(this.app, before, after).open();
+    };
+
+    if (versions.length === 1) {
+      open(versions[0]);
+    } else {
+      new VersionSuggestModal(this.app, versions, open).open();
+    }
+  }
+
+  private addStyles(): void {
+    const styleId = "summarize-history-styles";
+    if (document.getElementById(styleId)) return;
+
+    const style = document.createElement("style");
+    style.id = styleId;
+    style.textContent = `
+      .summarize-history {
+        display: flex;
+        flex-direction: column;
+        height: 100%;
+        gap: 8px;
+      }
+      .summarize-history-filters {
+        display: flex;
+        flex-direction: column;
+        gap: 6px;
+        padding-bottom: 8px;
+        border-bottom: 1px solid var(--background-modifier-border);
+      }
+      .summarize-history-filters select {
+        max-width: 100%;
+      }
+      .summarize-history-list {
+        flex: 1;
+        overflow-y: auto;
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+      }
+      .summarize-history-empty {
+        color: var(--text-muted);
+        font-size: 0.9em;
+      }
+      .summarize-history-entry {
+        padding: 8px 10px;
+        border-radius: 6px;
+        background: var(--background-secondary);
+      }
+      .summarize-history-title {
+        font-weight: 600;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+      .summarize-history-meta {
+        color: var(--text-muted);
+        font-size: 0.8em;
+        margin-bottom: 4px;
+      }
+      .summarize-history-entry summary {
+        font-size: 0.9em;
+        cursor: pointer;
+        user-select: text;
+      }
+      .summarize-history-body {
+        user-select: text;
+      }
+      .summarize-history-actions {
+        display: flex;
+        justify-content: flex-end;
+        gap: 4px;
+        margin-top: 4px;
+      }
+      .summarize-history-actions button {
+        font-size: 0.8em;
+        padding: 2px 6px;
+      }
+      .summarize-diff {
+        white-space: pre-wrap;
+        user-select: text;
+        max-height: 60vh;
+        overflow-y: auto;
+        padding: 8px;
+        border: 1px solid var(--background-modifier-border);
+        border-radius: 6px;
+      }
+      .summarize-diff del {
+        background: rgba(var(--color-red-rgb), 0.2);
+        color: var(--text-error);
+      }
+      .summarize-diff ins {
+        background: rgba(var(--color-green-rgb), 0.2);
+        color: var(--text-success);
+        text-decoration: none;
+      }
+    `;
+    document.head.appendChild(style);
+  }
+}
+
+/**
+ * Modal for picking the summary to compare with
+ */
+class VersionSuggestModal extends FuzzySuggestModal<SummaryHistoryEntry> {
+  private versions: SummaryHistoryEntry[];
+  private onChoose: (entry: SummaryHistoryEntry) => void;
+
+  constructor(app: App, versions: SummaryHistoryEntry[], onChoose: (entry: SummaryHistoryEntry) => void) {
+    super(app);
+    this.versions = versions;
+    this.onChoose = onChoose;
+    this.setPlaceholder("Compare with...");
+  }
+
+  getItems(): SummaryHistoryEntry[] {
+    return this.versions;
+  }
+
+  getItemText(entry: SummaryHistoryEntry): string {
+    return `${moment(entry.createdAt).format("YYYY-MM-DD HH:mm")} · ${entry.model} · ${entry.length}`;
+  }
+
+  onChooseItem(entry: SummaryHistoryEntry): void {
+    this.onChoose(entry);
+  }
+}
+
+/**
+ * Word diff between two summaries of the same source
+ */
+class SummaryDiffModal extends Modal {
+  private before: SummaryHistoryEntry;
+  private after: SummaryHistoryEntry;
+
+  constructor(app: App, before: SummaryHistoryEntry, after: SummaryHistoryEntry) {
+    super(app);
+    this.before = before;
+    this.after = after;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.createEl("h3", { text: this.after.title || "Compare summaries" });
+
+    const legend = contentEl.createEl("p");
+    legend.createEl("del", { text: this.describe(this.before) });
+    legend.appendText(" → ");
+    legend.createEl("ins", { text: this.describe(this.after) });
+
+    const parts = diffWords(this.before.content, this.after.content);
+    if (!parts) {
+      contentEl.createEl("p", { text: "These summaries are too large to diff." });
+      return;
+    }
+
+    const diffEl = contentEl.createDiv({ cls: "summarize-diff" });
+    for (const part of parts) {
+      if (part.type === "equal") {
+        diffEl.appendText(part.text);
+      } else {
+        diffEl.createEl(part.type === "insert" ? "ins" : "del", { text: part.text });
+      }
+    }
+  }
+
+  private describe(entry: SummaryHistoryEntry): string {
+    return `${entry.model} (${entry.length}, ${moment(entry.createdAt).format("YYYY-MM-DD HH:mm")})`;
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
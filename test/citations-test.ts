@@ -0,0 +1,85 @@
+/**
+ * Tests for passage segmentation and citation rendering
+ *
+ * Usage:
+ *   npx tsx --test test/citations-test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { formatPassages, renderCitations, segmentPassages } from "../src/services/citations";
+import { Passage } from "../src/types";
+
+const passages: Passage[] = [
+  { id: "P1", text: "The first passage talks about **apples** and pears." },
+  { id: "P2", text: "The second passage is about a well-known [orchard](https://example.org)." },
+  { id: "P3", text: "The third passage covers the harvest." },
+];
+
+test("short paragraphs are grouped into passages with sequential ids", () => {
+  const paragraph = (i: number) => `Paragraph ${i} ${"x".repeat(80)}.`;
+  const content = Array.from({ length: 6 }, (_, i) => paragraph(i + 1)).join("\n\n");
+
+  const result = segmentPassages(content);
+  assert.deepEqual(result.map((passage) => passage.id), ["P1", "P2"]);
+  assert.equal(result[0].text, [paragraph(1), paragraph(2), paragraph(3)].join("\n\n"));
+  assert.equal(result[1].text, [paragraph(4), paragraph(5), paragraph(6)].join("\n\n"));
+});
+
+test("long paragraphs are split between sentences", () => {
+  const sentence = `${"word ".repeat(40).trim()}.`;
+  const result = segmentPassages(Array.from({ length: 10 }, () => sentence).join(" "));
+
+  assert.ok(result.length > 1);
+  for (const passage of result) {
+    assert.ok(passage.text.length <= 800, `${passage.id} is ${passage.text.length} characters`);
+    assert.ok(passage.text.endsWith("."));
+  }
+});
+
+test("passages are sent with their ids", () => {
+  assert.equal(formatPassages(passages.slice(0, 2)), `[P1] ${passages[0].text}\n\n[P2] ${passages[1].text}`);
+});
+
+test("footnotes are numbered by first use and reused for repeated ids", () => {
+  const { content, unmatched } = renderCitations("- Apples [P1]\n- Orchard [P2, P1]", passages, {
+    mode: "footnotes",
+  });
+  assert.equal(unmatched, 0);
+
+  const labels = content.match(/\[\^\w+-\d+\]/g) ?? [];
+  assert.equal(labels.length, 5);
+  const [first, second] = labels as [string, string];
+  assert.match(first, /-1\]$/);
+  assert.match(second, /-2\]$/);
+  assert.deepEqual(labels, [first, second, first, first, second]);
+
+  const lines = content.split("\n");
+  assert.deepEqual(lines.slice(0, 2), [`- Apples ${first}`, `- Orchard ${second}${first}`]);
+  assert.equal(lines[3], `${first}: “The first passage talks about apples and pears.”`);
+  assert.equal(lines[4], `${second}: “The second passage is about a well-known orchard.”`);
+});
+
+test("ids without a passage are flagged and counted", () => {
+  const { content, unmatched } = renderCitations("Claim [P1, P9]. Other [P7]", passages, { mode: "footnotes" });
+  assert.equal(unmatched, 2);
+  assert.match(content, /^Claim \[\^\w+-1\] ⚠ \*citation P9 not found in source\*\. Other ⚠ \*citation P7 not found in source\*/);
+});
+
+test("links quote the passage and point to its text", () => {
+  const { content } = renderCitations("Orchard [P2]", passages, {
+    mode: "links",
+    url: "https://example.com/page#section",
+    textFragments: true,
+  });
+  assert.equal(
+    content,
+    "Orchard [“The second passage is about a well-known orchard.”]" +
+      "(https://example.com/page#:~:text=The%20second%20passage%20is%20about%20a%20well%2Dknown%20orchard.)"
+  );
+});
+
+test("links without a URL fall back to the quote", () => {
+  const { content } = renderCitations("Harvest [P3]", passages, { mode: "links" });
+  assert.equal(content, "Harvest (“The third passage covers the harvest.”)");
+});
@@ -0,0 +1,248 @@
+/**
+ * Tests for the request queue: priority lanes and de-duplicated requests
+ *
+ * Usage:
+ *   npx tsx --test test/request-scheduler-test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { RequestScheduler, SharedRequest } from "../src/services/request-scheduler";
+import { SummarizeSettings } from "../src/types";
+
+function createScheduler(maxConcurrentRequests = 1): RequestScheduler {
+  return new RequestScheduler({ maxConcurrentRequests } as SummarizeSettings);
+}
+
+/**
+ * A promise with its resolve and reject functions
+ */
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+/** Let pending promise callbacks run */
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const isAbortError = (error: unknown) => error instanceof DOMException && error.name === "AbortError";
+
+test("interactive requests start before queued background ones", async () => {
+  const scheduler = createScheduler(1);
+  const blocker = deferred<void>();
+  const started: string[] = [];
+
+  const first = scheduler.run(() => blocker.promise);
+  const background = scheduler.run(async () => {
+    started.push("background");
+  }, "background");
+  const interactive = scheduler.run(async () => {
+    started.push("interactive");
+  }, "interactive");
+  assert.deepEqual(scheduler.getStatus(), { running: 1, queued: { interactive: 1, background: 1 } });
+
+  blocker.resolve();
+  await Promise.all([first, background, interactive]);
+  assert.deepEqual(started, ["interactive", "background"]);
+  assert.deepEqual(scheduler.getStatus(), { running: 0, queued: { interactive: 0, background: 0 } });
+});
+
+test("no more than the concurrency limit run at once", async () => {
+  const scheduler = createScheduler(2);
+  const blockers = [deferred<void>(), deferred<void>(), deferred<void>()];
+  let running = 0;
+  let peak = 0;
+
+  const runs = blockers.map((blocker) =>
+    scheduler.run(async () => {
+      peak = Math.max(peak, ++running);
+      await blocker.promise;
+      running--;
+    })
+  );
+  await tick();
+  assert.equal(scheduler.getStatus().running, 2);
+
+  blockers.forEach((blocker) => blocker.resolve());
+  await Promise.all(runs);
+  assert.equal(peak, 2);
+});
+
+test("aborting a queued request removes it from the queue", async () => {
+  const scheduler = createScheduler(1);
+  const blocker = deferred<void>();
+  const controller = new AbortController();
+  let ran = false;
+
+  const first = scheduler.run(() => blocker.promise);
+  const queued = scheduler.run(async () => {
+    ran = true;
+  }, "background", controller.signal);
+
+  controller.abort();
+  await assert.rejects(queued, isAbortError);
+  assert.equal(scheduler.getStatus().queued.background, 0);
+
+  blocker.resolve();
+  await first;
+  assert.equal(ran, false);
+});
+
+test("identical requests in flight run the task once", async () => {
+  const scheduler = createScheduler();
+  const result = deferred<string>();
+  let calls = 0;
+  const task = () => {
+    calls++;
+    return result.promise;
+  };
+
+  const first = scheduler.dedupe("key", task);
+  const second = scheduler.dedupe("key", task);
+  result.resolve("summary");
+
+  assert.deepEqual(await first, { result: "summary", joined: false });
+  assert.deepEqual(await second, { result: "summary", joined: true });
+  assert.equal(calls, 1);
+
+  // Finished requests are not reused
+  await scheduler.dedupe("key", async () => {
+    calls++;
+    return "again";
+  });
+  assert.equal(calls, 2);
+});
+
+test("a late joiner gets the text streamed so far, then new chunks", async () => {
+  const scheduler = createScheduler();
+  const result = deferred<string>();
+  let shared!: SharedRequest;
+  const first: string[] = [];
+  const late: string[] = [];
+
+  const firstCall = scheduler.dedupe(
+    "key",
+    (request) => {
+      shared = request;
+      return result.promise;
+    },
+    { onStream: (chunk) => first.push(chunk) }
+  );
+  await tick();
+  shared.onStream("Hello ");
+  shared.onStream("wor");
+
+  const lateCall = scheduler.dedupe("key", () => result.promise, { onStream: (chunk) => late.push(chunk) });
+  shared.onStream("ld");
+  result.resolve("Hello world");
+  await Promise.all([firstCall, lateCall]);
+
+  assert.deepEqual(first, ["Hello ", "wor", "ld"]);
+  assert.deepEqual(late, ["Hello wor", "ld"]);
+});
+
+test("a caller that aborts leaves without cancelling the others", async () => {
+  const scheduler = createScheduler();
+  const result = deferred<string>();
+  let shared!: SharedRequest;
+  const controller = new AbortController();
+
+  const leaving = scheduler.dedupe(
+    "key",
+    (request) => {
+      shared = request;
+      return result.promise;
+    },
+    { abortSignal: controller.signal }
+  );
+  const staying = scheduler.dedupe("key", () => result.promise);
+  await tick();
+
+  controller.abort();
+  await assert.rejects(leaving, isAbortError);
+  assert.equal(shared.abortSignal.aborted, false);
+
+  result.resolve("summary");
+  assert.deepEqual(await staying, { result: "summary", joined: true });
+});
+
+test("the shared request is aborted once every caller has left", async () => {
+  const scheduler = createScheduler();
+  const result = deferred<string>();
+  let shared!: SharedRequest;
+  const controllers = [new AbortController(), new AbortController()];
+
+  const calls = controllers.map((controller) =>
+    scheduler.dedupe(
+      "key",
+      (request) => {
+        shared = request;
+        return result.promise;
+      },
+      { abortSignal: controller.signal }
+    )
+  );
+  await tick();
+
+  controllers[0].abort();
+  await assert.rejects(calls[0], isAbortError);
+  assert.equal(shared.abortSignal.aborted, false);
+
+  controllers[1].abort();
+  await assert.rejects(calls[1], isAbortError);
+  assert.equal(shared.abortSignal.aborted, true);
+
+  // The abandoned request no longer takes new callers
+  const next = await scheduler.dedupe("key", async () => "fresh");
+  assert.deepEqual(next, { result: "fresh", joined: false });
+});
+
+test("an already aborted caller is rejected without starting the task", async () => {
+  const scheduler = createScheduler();
+  const controller = new AbortController();
+  controller.abort();
+  let calls = 0;
+
+  await assert.rejects(
+    scheduler.dedupe("key", async () => {
+      calls++;
+      return "summary";
+    }, { abortSignal: controller.signal }),
+    isAbortError
+  );
+  assert.equal(calls, 0);
+});
+
+test("a stream reset rejects callers that stream without a reset handler", async () => {
+  const scheduler = createScheduler();
+  const result = deferred<string>();
+  let shared!: SharedRequest;
+  const handled: string[] = [];
+
+  const withReset = scheduler.dedupe(
+    "key",
+    (request) => {
+      shared = request;
+      return result.promise;
+    },
+    { onStream: (chunk) => handled.push(chunk), onStreamReset: () => handled.push("<reset>") }
+  );
+  const withoutReset = scheduler.dedupe("key", () => result.promise, { onStream: () => undefined });
+  const notStreaming = scheduler.dedupe("key", () => result.promise);
+  await tick();
+
+  shared.onStream("partial");
+  shared.onStreamReset();
+  await assert.rejects(withoutReset, /failed mid-stream/);
+
+  shared.onStream("retry");
+  result.resolve("retry");
+  assert.deepEqual(await withReset, { result: "retry", joined: false });
+  assert.deepEqual(await notStreaming, { result: "retry", joined: true });
+  assert.deepEqual(handled, ["partial", "<reset>", "retry"]);
+});
@@ -0,0 +1,65 @@
+/**
+ * Fixture tests for the incremental SSE parser
+ *
+ * Usage:
+ *   npx tsx --test test/sse-parser-test.ts
+ *
+ * Each fixture in test/fixtures/sse is a raw event stream (<name>.sse) with the
+ * events it must produce (<name>.json). Every stream is parsed in one piece,
+ * byte by byte, and split in two at every byte offset, so events, lines, CRLF
+ * pairs and multi-byte characters are all cut across chunk boundaries.
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { SSEEvent, SSEParser } from "../src/services/sse-parser";
+
+const FIXTURES_DIR = join(__dirname, "fixtures", "sse");
+
+function parseChunks(chunks: Uint8Array[]): SSEEvent[] {
+  const parser = new SSEParser();
+  const events = chunks.flatMap((chunk) => parser.push(chunk));
+  return [...events, ...parser.end()];
+}
+
+const fixtures = readdirSync(FIXTURES_DIR)
+  .filter((file) => file.endsWith(".sse"))
+  .map((file) => file.slice(0, -".sse".length));
+
+for (const name of fixtures) {
+  const raw = new Uint8Array(readFileSync(join(FIXTURES_DIR, `${name}.sse`)));
+  const expected: SSEEvent[] = JSON.parse(readFileSync(join(FIXTURES_DIR, `${name}.json`), "utf-8"));
+
+  test(`${name}: whole stream`, () => {
+    assert.deepEqual(parseChunks([raw]), expected);
+  });
+
+  test(`${name}: byte by byte`, () => {
+    const bytes = Array.from(raw, (byte) => Uint8Array.of(byte));
+    assert.deepEqual(parseChunks(bytes), expected);
+  });
+
+  test(`${name}: split at every offset`, () => {
+    for (let i = 1; i < raw.length; i++) {
+      assert.deepEqual(parseChunks([raw.subarray(0, i), raw.subarray(i)]), expected, `split at byte ${i}`);
+    }
+  });
+}
+
+test("string chunks with a CRLF split across them", () => {
+  const parser = new SSEParser();
+  const events = [...parser.push("data: a\r"), ...parser.push("\n\r"), ...parser.push("\ndata: b\r\n\r\n")];
+  assert.deepEqual([...events, ...parser.end()], [
+    { event: "message", data: "a" },
+    { event: "message", data: "b" },
+  ]);
+});
+
+test("events are returned as soon as their blank line arrives", () => {
+  const parser = new SSEParser();
+  assert.deepEqual(parser.push("data: first\n"), []);
+  assert.deepEqual(parser.push("\ndata: sec"), [{ event: "message", data: "first" }]);
+  assert.deepEqual(parser.end(), [{ event: "message", data: "sec" }]);
+});
@@ -0,0 +1,72 @@
+/**
+ * Tests for the word diff of the summary history
+ *
+ * Usage:
+ *   npx tsx --test test/text-diff-test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { DiffPart, diffWords } from "../src/services/text-diff";
+
+/** Text of one side of a diff */
+function side(parts: DiffPart[], type: "insert" | "delete"): string {
+  return parts
+    .filter((part) => part.type === "equal" || part.type === type)
+    .map((part) => part.text)
+    .join("");
+}
+
+test("identical texts are one equal part", () => {
+  assert.deepEqual(diffWords("same text", "same text"), [{ type: "equal", text: "same text" }]);
+});
+
+test("changed words are deleted and inserted between equal runs", () => {
+  assert.deepEqual(diffWords("the quick brown fox", "the slow brown fox"), [
+    { type: "equal", text: "the " },
+    { type: "delete", text: "quick" },
+    { type: "insert", text: "slow" },
+    { type: "equal", text: " brown fox" },
+  ]);
+});
+
+test("empty sides are all inserted or all deleted", () => {
+  assert.deepEqual(diffWords("", "new text"), [{ type: "insert", text: "new text" }]);
+  assert.deepEqual(diffWords("old text", ""), [{ type: "delete", text: "old text" }]);
+  assert.deepEqual(diffWords("", ""), []);
+});
+
+test("both texts can be rebuilt from the diff", () => {
+  const before = "- Point one\n- Point two\n\nA closing line.";
+  const after = "- Point one, revised\n- Point three\n\nA closing line.\nAnd one more.";
+  const parts = diffWords(before, after);
+  assert.ok(parts);
+  assert.equal(side(parts, "delete"), before);
+  assert.equal(side(parts, "insert"), after);
+});
+
+test("long texts are compared line by line", () => {
+  // 3000 words on each side is more than the word diff allows, but only 100 lines
+  const line = (i: number) => `${Array.from({ length: 30 }, (_, w) => `word${i}-${w}`).join(" ")}\n`;
+  const lines = Array.from({ length: 100 }, (_, i) => line(i));
+  const before = lines.join("");
+  const after = [...lines.slice(0, 50), "changed line\n", ...lines.slice(51)].join("");
+
+  const parts = diffWords(before, after);
+  assert.ok(parts);
+  assert.deepEqual(
+    parts.filter((part) => part.type !== "equal"),
+    [
+      { type: "delete", text: line(50) },
+      { type: "insert", text: "changed line\n" },
+    ]
+  );
+  assert.equal(side(parts, "insert"), after);
+});
+
+test("texts too large even line by line are not diffed", () => {
+  // 2500 lines on each side is more than the line diff allows too
+  const before = Array.from({ length: 2500 }, (_, i) => `before ${i}\n`).join("");
+  const after = Array.from({ length: 2500 }, (_, i) => `after ${i}\n`).join("");
+  assert.equal(diffWords(before, after), null);
+});